@@ -14,6 +14,7 @@ import {
   LayoutDashboard,
   Upload,
   BarChart3,
+  Factory,
   History,
   Settings,
   LogOut,
@@ -21,10 +22,14 @@ import {
   X,
   Globe,
   User,
+  Compass,
 } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import OnboardingTour from '@/components/onboarding/OnboardingTour';
+import { useOnboardingTour } from '@/hooks/use-onboarding-tour';
+import { TOUR_STEPS } from '@/lib/onboarding';
 
 const languages = [
   { code: 'en', name: 'English', flag: '🇬🇧' },
@@ -40,11 +45,14 @@ export default function Layout({ children }: { children: React.ReactNode }) {
   const location = useLocation();
   const navigate = useNavigate();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const tour = useOnboardingTour();
+  const tourPath = tour.step !== null ? TOUR_STEPS[tour.step].path : null;
 
   const navItems = [
     { path: '/dashboard', icon: LayoutDashboard, label: t('nav.dashboard') },
     { path: '/upload', icon: Upload, label: t('nav.upload') },
     { path: '/visualization', icon: BarChart3, label: t('nav.visualization') },
+    { path: '/equipment', icon: Factory, label: t('nav.equipment') },
     { path: '/history', icon: History, label: t('nav.history') },
     { path: '/settings', icon: Settings, label: t('nav.settings') },
   ];
@@ -81,7 +89,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
           <nav className="hidden lg:flex items-center gap-1">
             {navItems.map((item) => {
               const Icon = item.icon;
-              const isActive = location.pathname === item.path;
+              const isActive = location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
               return (
                 <Link
                   key={item.path}
@@ -90,7 +98,8 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                     'flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
                     isActive
                       ? 'bg-primary text-primary-foreground'
-                      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                      : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground',
+                    item.path === tourPath && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
                   )}
                 >
                   <Icon className="h-4 w-4" />
@@ -142,6 +151,10 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                   <Settings className="mr-2 h-4 w-4" />
                   {t('nav.settings')}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={tour.start} className="cursor-pointer">
+                  <Compass className="mr-2 h-4 w-4" />
+                  {t('onboarding.takeTour')}
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleSignOut} className="cursor-pointer text-destructive">
                   <LogOut className="mr-2 h-4 w-4" />
@@ -168,7 +181,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
             <div className="flex flex-col gap-2">
               {navItems.map((item) => {
                 const Icon = item.icon;
-                const isActive = location.pathname === item.path;
+                const isActive = location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
                 return (
                   <Link
                     key={item.path}
@@ -178,7 +191,8 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                       'flex items-center gap-3 rounded-lg px-4 py-3 text-sm font-medium transition-colors',
                       isActive
                         ? 'bg-primary text-primary-foreground'
-                        : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                        : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground',
+                      item.path === tourPath && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
                     )}
                   >
                     <Icon className="h-5 w-5" />
@@ -195,6 +209,10 @@ export default function Layout({ children }: { children: React.ReactNode }) {
       <main className="container mx-auto px-4 py-6">
         {children}
       </main>
+
+      {tour.step !== null && (
+        <OnboardingTour step={tour.step} onNext={tour.next} onBack={tour.back} onFinish={tour.finish} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { Equipment, EquipmentDetails } from '@/lib/equipment';
+
+interface EquipmentDetailsDialogProps {
+  /** The asset being edited; the dialog is open while set. */
+  equipment: Equipment | null;
+  onClose: () => void;
+  onSave: (id: string, details: EquipmentDetails) => Promise<void>;
+}
+
+const TEXT_FIELDS = ['type', 'area', 'manufacturer'] as const;
+
+export default function EquipmentDetailsDialog({ equipment, onClose, onSave }: EquipmentDetailsDialogProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<EquipmentDetails>({ type: null, area: null, manufacturer: null, commissionedOn: null });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (equipment) setDraft(equipment);
+  }, [equipment]);
+
+  const handleSave = async () => {
+    if (!equipment) return;
+    setSaving(true);
+    try {
+      await onSave(equipment.id, draft);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!equipment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{equipment?.tag}</DialogTitle>
+          <DialogDescription>{t('equipment.editDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {TEXT_FIELDS.map((field) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`equipment-${field}`}>{t(`equipment.fields.${field}`)}</Label>
+              <Input
+                id={`equipment-${field}`}
+                value={draft[field] ?? ''}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+              />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="equipment-commissionedOn">{t('equipment.fields.commissionedOn')}</Label>
+            <Input
+              id="equipment-commissionedOn"
+              type="date"
+              value={draft.commissionedOn ?? ''}
+              onChange={(e) => setDraft({ ...draft, commissionedOn: e.target.value || null })}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useUnits } from '@/contexts/UnitsContext';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { Equipment, EquipmentLimits } from '@/lib/equipment';
+import { Metric } from '@/lib/metrics';
+import { toBase } from '@/lib/units';
+
+interface EquipmentLimitsDialogProps {
+  equipment: Equipment;
+  metrics: Metric[];
+  onClose: () => void;
+  onSave: (id: string, limits: EquipmentLimits) => Promise<void>;
+}
+
+type Draft = Record<string, { min: string; max: string }>;
+
+const parseBound = (text: string) => (text.trim() === '' ? null : Number(text));
+
+/**
+ * Edits the asset's limits in display units; they are stored in the same
+ * units as the readings. Mounted while open, so each opening starts from the
+ * saved limits.
+ */
+export default function EquipmentLimitsDialog({ equipment, metrics, onClose, onSave }: EquipmentLimitsDialogProps) {
+  const { t } = useTranslation();
+  const { displayUnits } = useUnits();
+  const { metricLabel, displayValue } = useMetricDisplay();
+  const [draft, setDraft] = useState<Draft>(() => {
+    const text = (metric: Metric, value: number | null | undefined) => {
+      const shown = displayValue(metric, value);
+      return shown === null ? '' : String(Number(shown.toFixed(4)));
+    };
+    return Object.fromEntries(
+      metrics.map((metric) => {
+        const limit = equipment.limits[metric.id];
+        return [metric.id, { min: text(metric, limit?.min), max: text(metric, limit?.max) }];
+      })
+    );
+  });
+  const [saving, setSaving] = useState(false);
+
+  const toStored = (metric: Metric, text: string | undefined) => {
+    const value = parseBound(text ?? '');
+    if (value === null || Number.isNaN(value) || !('quantity' in metric)) return value;
+    return toBase(metric.quantity, displayUnits[metric.quantity], value);
+  };
+
+  const limits: EquipmentLimits = Object.fromEntries(
+    metrics.map((metric) => [
+      metric.id,
+      { min: toStored(metric, draft[metric.id]?.min), max: toStored(metric, draft[metric.id]?.max) },
+    ])
+  );
+  const invalid = Object.values(limits).some(
+    ({ min, max }) => Number.isNaN(min) || Number.isNaN(max) || (min !== null && max !== null && min > max)
+  );
+
+  const update = (id: string, bound: 'min' | 'max', value: string) =>
+    setDraft({ ...draft, [id]: { ...(draft[id] ?? { min: '', max: '' }), [bound]: value } });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(equipment.id, limits);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('equipment.limits.title', { tag: equipment.tag })}</DialogTitle>
+          <DialogDescription>{t('equipment.limits.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {metrics.map((metric) => (
+            <div key={metric.id} className="grid grid-cols-[1fr_6rem_6rem] items-center gap-2">
+              <Label>{metricLabel(metric)}</Label>
+              <Input
+                type="number"
+                aria-label={t('settings.parameters.min')}
+                placeholder={'parameter' in metric && metric.parameter.min !== null ? String(metric.parameter.min) : t('settings.parameters.min')}
+                value={draft[metric.id]?.min ?? ''}
+                onChange={(e) => update(metric.id, 'min', e.target.value)}
+              />
+              <Input
+                type="number"
+                aria-label={t('settings.parameters.max')}
+                placeholder={'parameter' in metric && metric.parameter.max !== null ? String(metric.parameter.max) : t('settings.parameters.max')}
+                value={draft[metric.id]?.max ?? ''}
+                onChange={(e) => update(metric.id, 'max', e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+        {invalid && <p className="text-sm text-destructive">{t('settings.parameters.invalidRange')}</p>}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || invalid}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart3 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { Equipment, EquipmentReading } from '@/lib/equipment';
+import { Metric, metricValue } from '@/lib/metrics';
+
+interface EquipmentReadingsCardProps {
+  equipment: Equipment;
+  readings: EquipmentReading[];
+  metrics: Metric[];
+}
+
+/** Readings of one asset from all of the user's uploads. */
+export default function EquipmentReadingsCard({ equipment, readings, metrics }: EquipmentReadingsCardProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { metricLabel, formatValue } = useMetricDisplay();
+
+  // Only metrics this asset has values for.
+  const shownMetrics = metrics.filter((metric) => readings.some((reading) => metricValue(reading, metric) !== null));
+  const uploadCount = new Set(readings.map((reading) => reading.upload_id)).size;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('equipment.readingsOf', { tag: equipment.tag })}</CardTitle>
+        <CardDescription>{t('equipment.readingsSummary', { readings: readings.length, uploads: uploadCount })}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {readings.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">{t('equipment.noReadings')}</p>
+        ) : (
+          <div className="rounded-lg border overflow-auto max-h-96">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('history.filename')}</TableHead>
+                  <TableHead>{t('history.uploadDate')}</TableHead>
+                  <TableHead>{t('table.readingTime')}</TableHead>
+                  {shownMetrics.map((metric) => (
+                    <TableHead key={metric.id} className="text-right">{metricLabel(metric)}</TableHead>
+                  ))}
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {readings.map((reading) => (
+                  <TableRow key={reading.id}>
+                    <TableCell className="font-medium">
+                      {reading.uploads?.filename}
+                      {reading.uploads?.archived_at && <Badge variant="secondary" className="ml-2">{t('history.archived')}</Badge>}
+                    </TableCell>
+                    <TableCell>{reading.uploads && format(new Date(reading.uploads.created_at), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell>{reading.reading_time ? format(new Date(reading.reading_time), 'MMM dd, yyyy HH:mm') : '-'}</TableCell>
+                    {shownMetrics.map((metric) => (
+                      <TableCell key={metric.id} className="text-right">{formatValue(metric, metricValue(reading, metric))}</TableCell>
+                    ))}
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title={t('nav.visualization')}
+                        onClick={() => navigate('/visualization', { state: { uploadId: reading.upload_id, equipment: equipment.tag } })}
+                      >
+                        <BarChart3 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
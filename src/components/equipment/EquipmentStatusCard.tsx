@@ -0,0 +1,77 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { SlidersHorizontal } from 'lucide-react';
+import { format } from 'date-fns';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { Equipment, EquipmentReading, LimitStatus, latestValue, limitStatus, metricLimit } from '@/lib/equipment';
+import { Metric } from '@/lib/metrics';
+
+const STATUS_VARIANTS: Record<LimitStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  normal: 'default',
+  low: 'destructive',
+  high: 'destructive',
+  noLimits: 'secondary',
+  noData: 'outline',
+};
+
+interface EquipmentStatusCardProps {
+  equipment: Equipment;
+  readings: EquipmentReading[];
+  metrics: Metric[];
+  onEditLimits: () => void;
+}
+
+/** The latest value of each metric against the asset's limits. */
+export default function EquipmentStatusCard({ equipment, readings, metrics, onEditLimits }: EquipmentStatusCardProps) {
+  const { t } = useTranslation();
+  const { metricLabel, formatValue } = useMetricDisplay();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>{t('equipment.status.title')}</CardTitle>
+            <CardDescription>{t('equipment.status.description')}</CardDescription>
+          </div>
+          <Button variant="outline" onClick={onEditLimits}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            {t('equipment.limits.edit')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {metrics.map((metric) => {
+            const latest = latestValue(readings, metric);
+            const limit = metricLimit(equipment, metric);
+            const status = limitStatus(latest?.value ?? null, limit);
+            return (
+              <div key={metric.id} className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm text-muted-foreground">{metricLabel(metric)}</p>
+                  <Badge variant={STATUS_VARIANTS[status]}>{t(`equipment.status.${status}`)}</Badge>
+                </div>
+                <p className="text-2xl font-bold">{formatValue(metric, latest?.value)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {latest && format(new Date(latest.at), 'MMM dd, yyyy HH:mm')}
+                  {(limit.min !== null || limit.max !== null) && (
+                    <>
+                      {latest && ' · '}
+                      {t('equipment.status.limits', {
+                        min: limit.min === null ? '…' : formatValue(metric, limit.min),
+                        max: limit.max === null ? '…' : formatValue(metric, limit.max),
+                      })}
+                    </>
+                  )}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
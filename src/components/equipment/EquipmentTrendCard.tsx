@@ -0,0 +1,97 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Chart as ChartJS, CategoryScale, LinearScale, LineElement, PointElement, Tooltip, Legend } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { format } from 'date-fns';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { Equipment, EquipmentReading, metricLimit, uploadTrend } from '@/lib/equipment';
+import { Metric } from '@/lib/metrics';
+
+ChartJS.register(CategoryScale, LinearScale, LineElement, PointElement, Tooltip, Legend);
+
+const LINE_COLOR = 'hsl(153, 100%, 17%)';
+const LIMIT_COLOR = 'hsl(0, 70%, 50%)';
+
+interface EquipmentTrendCardProps {
+  equipment: Equipment;
+  readings: EquipmentReading[];
+  metrics: Metric[];
+}
+
+/**
+ * The asset's average per upload for each metric, with its limits as dashed
+ * lines. Clicking a point opens that upload in Visualization.
+ */
+export default function EquipmentTrendCard({ equipment, readings, metrics }: EquipmentTrendCardProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { metricLabel, displayValue } = useMetricDisplay();
+
+  const charts = metrics
+    .map((metric) => ({ metric, points: uploadTrend(readings, metric) }))
+    .filter(({ points }) => points.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('equipment.trend.title')}</CardTitle>
+        <CardDescription>{t('equipment.trend.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        {charts.map(({ metric, points }) => {
+          const limit = metricLimit(equipment, metric);
+          const limitLine = (label: string, value: number | null) =>
+            value === null
+              ? []
+              : [{
+                  label,
+                  data: points.map(() => displayValue(metric, value)),
+                  borderColor: LIMIT_COLOR,
+                  borderDash: [6, 4],
+                  borderWidth: 1,
+                  pointRadius: 0,
+                  pointHitRadius: 0,
+                }];
+          return (
+            <div key={metric.id}>
+              <p className="mb-2 text-sm font-medium">{metricLabel(metric)}</p>
+              <div className="h-56">
+                <Line
+                  data={{
+                    labels: points.map((point) => format(new Date(point.uploadedAt), 'MMM dd, yyyy')),
+                    datasets: [
+                      {
+                        label: metricLabel(metric),
+                        data: points.map((point) => displayValue(metric, point.average)),
+                        borderColor: LINE_COLOR,
+                        backgroundColor: LINE_COLOR,
+                        pointRadius: 4,
+                      },
+                      ...limitLine(t('equipment.trend.min'), limit.min),
+                      ...limitLine(t('equipment.trend.max'), limit.max),
+                    ],
+                  }}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: {
+                      legend: { display: false },
+                      tooltip: {
+                        callbacks: { title: (items) => points[items[0].dataIndex]?.filename ?? '' },
+                      },
+                    },
+                    onClick: (_event, elements) => {
+                      const point = elements.length > 0 ? points[elements[0].index] : undefined;
+                      if (point) navigate('/visualization', { state: { uploadId: point.uploadId, equipment: equipment.tag } });
+                    },
+                  }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
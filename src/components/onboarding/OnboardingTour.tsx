@@ -0,0 +1,55 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { X } from 'lucide-react';
+import { TOUR_STEPS } from '@/lib/onboarding';
+
+interface OnboardingTourProps {
+  step: number;
+  onNext: () => void;
+  onBack: () => void;
+  onFinish: () => void;
+}
+
+/** Explains the current tour stop; Layout highlights the matching nav item. */
+export default function OnboardingTour({ step, onNext, onBack, onFinish }: OnboardingTourProps) {
+  const { t } = useTranslation();
+  const { key } = TOUR_STEPS[step];
+  const last = step === TOUR_STEPS.length - 1;
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-50 w-[calc(100%-2rem)] max-w-sm shadow-lg animate-fade-in" role="dialog" aria-live="polite">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardDescription>{t('onboarding.stepOf', { step: step + 1, total: TOUR_STEPS.length })}</CardDescription>
+            <CardTitle className="text-lg">{t(`onboarding.steps.${key}.title`)}</CardTitle>
+          </div>
+          <Button variant="ghost" size="icon" className="-mr-2 -mt-2" title={t('onboarding.skip')} onClick={onFinish}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">{t(`onboarding.steps.${key}.body`)}</p>
+        <Progress value={((step + 1) / TOUR_STEPS.length) * 100} />
+        <div className="flex justify-between gap-2">
+          <Button variant="ghost" size="sm" onClick={onFinish}>
+            {t('onboarding.skip')}
+          </Button>
+          <div className="flex gap-2">
+            {step > 0 && (
+              <Button variant="outline" size="sm" onClick={onBack}>
+                {t('common.back')}
+              </Button>
+            )}
+            <Button size="sm" onClick={onNext}>
+              {t(last ? 'onboarding.finish' : 'onboarding.next')}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
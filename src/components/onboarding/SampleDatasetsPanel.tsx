@@ -0,0 +1,58 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSampleDatasets } from '@/hooks/use-sample-datasets';
+import { SAMPLE_DATASETS } from '@/lib/sampleDatasets';
+
+interface SampleDatasetsPanelProps {
+  /** Called with the new upload; opens it in Visualization by default. */
+  onLoaded?: (uploadId: string) => void;
+}
+
+/** One-click sample data for empty states, so new users can explore before uploading. */
+export default function SampleDatasetsPanel({ onLoaded }: SampleDatasetsPanelProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { loadSample, loadingId } = useSampleDatasets();
+
+  const handleLoad = async (dataset: (typeof SAMPLE_DATASETS)[number]) => {
+    try {
+      const uploadId = await loadSample(dataset);
+      toast.success(t('samples.loaded', { name: t(`samples.${dataset.id}.name`) }));
+      if (onLoaded) onLoaded(uploadId);
+      else navigate('/visualization', { state: { uploadId } });
+    } catch (err) {
+      console.error('Error loading sample dataset:', err);
+      toast.error(t('samples.loadFailed'));
+    }
+  };
+
+  return (
+    <div className="mt-8 w-full max-w-3xl text-left">
+      <p className="mb-3 text-center text-sm text-muted-foreground">{t('samples.intro')}</p>
+      <div className="grid gap-3 sm:grid-cols-3">
+        {SAMPLE_DATASETS.map((dataset) => (
+          <div key={dataset.id} className="flex flex-col rounded-lg border p-4">
+            <div className="mb-1 flex items-center gap-2 font-medium">
+              <FlaskConical className="h-4 w-4 text-primary" />
+              {t(`samples.${dataset.id}.name`)}
+            </div>
+            <p className="flex-1 text-sm text-muted-foreground">{t(`samples.${dataset.id}.description`)}</p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3"
+              disabled={loadingId !== null}
+              onClick={() => handleLoad(dataset)}
+            >
+              {loadingId === dataset.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('samples.load')}
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Gauge, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useProcessParameters } from '@/hooks/use-process-parameters';
+import { parameterKey } from '@/lib/processParameters';
+
+const EMPTY_DRAFT = { name: '', unit: '', min: '', max: '' };
+
+const parseBound = (text: string) => (text.trim() === '' ? null : Number(text));
+
+/** Lets the user define process parameters beyond flowrate, pressure and temperature. */
+export default function ProcessParametersCard() {
+  const { t } = useTranslation();
+  const { parameters, saveParameter, deleteParameter } = useProcessParameters();
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const min = parseBound(draft.min);
+  const max = parseBound(draft.max);
+  const invalidRange = Number.isNaN(min) || Number.isNaN(max) || (min !== null && max !== null && min > max);
+  const canSave = parameterKey(draft.name) !== '' && !invalidRange && !saving;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveParameter({ name: draft.name.trim(), unit: draft.unit.trim(), min, max });
+      setDraft(EMPTY_DRAFT);
+      toast.success(t('settings.parameters.saved'));
+    } catch (err) {
+      console.error('Error saving process parameter:', err);
+      toast.error(t('settings.parameters.saveFailed'));
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteParameter(id);
+    } catch (err) {
+      console.error('Error deleting process parameter:', err);
+      toast.error(t('common.error'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-primary" />
+          {t('settings.parameters.title')}
+        </CardTitle>
+        <CardDescription>{t('settings.parameters.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {parameters.length > 0 && (
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('settings.parameters.name')}</TableHead>
+                  <TableHead>{t('upload.unit')}</TableHead>
+                  <TableHead>{t('settings.parameters.range')}</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parameters.map((parameter) => (
+                  <TableRow key={parameter.id}>
+                    <TableCell className="font-medium">{parameter.name}</TableCell>
+                    <TableCell>{parameter.unit || '-'}</TableCell>
+                    <TableCell>
+                      {parameter.min ?? '…'} – {parameter.max ?? '…'}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title={t('common.delete')}
+                        onClick={() => handleDelete(parameter.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <div className="grid gap-3 sm:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="parameterName">{t('settings.parameters.name')}</Label>
+            <Input
+              id="parameterName"
+              value={draft.name}
+              placeholder="pH"
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="parameterUnit">{t('upload.unit')}</Label>
+            <Input
+              id="parameterUnit"
+              value={draft.unit}
+              placeholder="kW"
+              onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="parameterMin">{t('settings.parameters.min')}</Label>
+            <Input
+              id="parameterMin"
+              type="number"
+              value={draft.min}
+              onChange={(e) => setDraft({ ...draft, min: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="parameterMax">{t('settings.parameters.max')}</Label>
+            <Input
+              id="parameterMax"
+              type="number"
+              value={draft.max}
+              onChange={(e) => setDraft({ ...draft, max: e.target.value })}
+            />
+          </div>
+        </div>
+        {invalidRange && <p className="text-sm text-destructive">{t('settings.parameters.invalidRange')}</p>}
+        <Button onClick={handleSave} disabled={!canSave} className="gap-2">
+          <Plus className="h-4 w-4" />
+          {t('settings.parameters.add')}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
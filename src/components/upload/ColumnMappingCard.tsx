@@ -0,0 +1,198 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, ArrowRight, Columns3, Sparkles } from 'lucide-react';
+import SaveProfileDialog from '@/components/upload/SaveProfileDialog';
+import {
+  ColumnAssignment,
+  FIELD_LABEL_KEYS,
+  MappingConfidence,
+  MappingTarget,
+  NumericField,
+  RawTable,
+  TARGET_FIELDS,
+  assignColumn,
+  isNumericField,
+  missingRequiredFields,
+  parameterKeyOf,
+  parameterTarget,
+  setColumnUnit,
+} from '@/lib/columnMapping';
+import { ImportProfile } from '@/lib/importProfiles';
+import { ProcessParameter } from '@/lib/processParameters';
+import { UNITS, getUnit } from '@/lib/units';
+
+const CONFIDENCE_VARIANTS: Record<MappingConfidence, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  high: 'default',
+  medium: 'secondary',
+  low: 'outline',
+  manual: 'secondary',
+  none: 'outline',
+};
+
+function UnitSelect({ quantity, value, onChange }: { quantity: NumericField; value?: string; onChange: (unit: string) => void }) {
+  return (
+    <Select value={getUnit(quantity, value).id} onValueChange={onChange}>
+      <SelectTrigger className="w-[120px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {UNITS[quantity].map((unit) => (
+          <SelectItem key={unit.id} value={unit.id}>
+            {unit.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface ColumnMappingCardProps {
+  fileName: string;
+  table: RawTable;
+  mapping: ColumnAssignment[];
+  /** The user's process parameters, offered as extra targets. */
+  parameters: ProcessParameter[];
+  onMappingChange: (mapping: ColumnAssignment[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  activeProfile?: ImportProfile | null;
+  suggestedProfile?: ImportProfile | null;
+  onApplyProfile?: (profile: ImportProfile) => void;
+  onSaveProfile?: (name: string) => Promise<void>;
+}
+
+export default function ColumnMappingCard({
+  fileName,
+  table,
+  mapping,
+  parameters,
+  onMappingChange,
+  onConfirm,
+  onCancel,
+  activeProfile,
+  suggestedProfile,
+  onApplyProfile,
+  onSaveProfile,
+}: ColumnMappingCardProps) {
+  const { t } = useTranslation();
+  const missing = missingRequiredFields(mapping);
+
+  const sampleValues = (column: number) =>
+    table.rows
+      .slice(0, 3)
+      .map((row) => row[column]?.trim())
+      .filter(Boolean)
+      .join(', ');
+
+  const parameterOf = (target: MappingTarget) => parameters.find((p) => p.key === parameterKeyOf(target));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Columns3 className="h-5 w-5 text-primary" />
+              {t('upload.mappingTitle')}
+            </CardTitle>
+            <CardDescription>
+              {fileName} • {t('upload.mappingDescription')}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {onSaveProfile && <SaveProfileDialog defaultName={activeProfile?.name} onSave={onSaveProfile} />}
+            <Button variant="outline" onClick={onCancel}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={onConfirm} disabled={missing.length > 0}>
+              {t('upload.continueToPreview')}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {suggestedProfile && onApplyProfile && (
+          <div className="flex items-center gap-2 rounded-lg border border-primary/50 bg-primary/5 p-3 text-sm">
+            <Sparkles className="h-4 w-4 text-primary" />
+            {t('upload.profileSuggestion', { name: suggestedProfile.name })}
+            <Button size="sm" variant="outline" className="ml-auto" onClick={() => onApplyProfile(suggestedProfile)}>
+              {t('upload.applyProfile')}
+            </Button>
+          </div>
+        )}
+        {missing.length > 0 && (
+          <div className="flex items-center gap-2 rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {t('upload.missingRequired')}: {missing.map((field) => t(FIELD_LABEL_KEYS[field])).join(', ')}
+          </div>
+        )}
+        <div className="rounded-lg border overflow-auto max-h-96">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('upload.sourceColumn')}</TableHead>
+                <TableHead>{t('upload.sampleValues')}</TableHead>
+                <TableHead>{t('upload.mapsTo')}</TableHead>
+                <TableHead>{t('upload.unit')}</TableHead>
+                <TableHead>{t('upload.confidence')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table.headers.map((header, column) => (
+                <TableRow key={column}>
+                  <TableCell className="font-medium">{header || '-'}</TableCell>
+                  <TableCell className="max-w-[240px] truncate text-muted-foreground">
+                    {sampleValues(column) || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={mapping[column].target}
+                      onValueChange={(value) => onMappingChange(assignColumn(mapping, column, value as MappingTarget))}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TARGET_FIELDS.map((field) => (
+                          <SelectItem key={field} value={field}>
+                            {t(FIELD_LABEL_KEYS[field])}
+                          </SelectItem>
+                        ))}
+                        {parameters.map((parameter) => (
+                          <SelectItem key={parameter.id} value={parameterTarget(parameter.key)}>
+                            {parameter.name}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="ignore">{t('upload.ignoreColumn')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {isNumericField(mapping[column].target) && (
+                      <UnitSelect
+                        quantity={mapping[column].target}
+                        value={mapping[column].unit}
+                        onChange={(unit) => onMappingChange(setColumnUnit(mapping, column, unit))}
+                      />
+                    )}
+                    {parameterOf(mapping[column].target)?.unit}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={CONFIDENCE_VARIANTS[mapping[column].confidence]}>
+                      {t(`upload.confidenceLevels.${mapping[column].confidence}`)}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
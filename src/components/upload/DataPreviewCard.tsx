@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Check, Columns3, Download, Loader2, Trash2, Upload as UploadIcon } from 'lucide-react';
+import EditableRowsTable from '@/components/upload/EditableRowsTable';
+import { FIELD_LABEL_KEYS, ParsedRow, TARGET_FIELDS, TargetField, parameterKeyOf } from '@/lib/columnMapping';
+import { downloadFile } from '@/lib/download';
+import { ProcessParameter } from '@/lib/processParameters';
+import { RetentionCandidate } from '@/lib/retention';
+import {
+  RowEdit,
+  RowStatus,
+  ValidatedRow,
+  ValidationIssue,
+  ValidationSummary,
+  acceptedCount,
+  rejectedRowsCsv,
+} from '@/lib/validation';
+
+type StatusFilter = 'all' | RowStatus;
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'ok', 'warning', 'error'];
+
+interface DataPreviewCardProps {
+  fileName: string;
+  headers: string[];
+  /** The first rows of each status; `summary` covers all of them. */
+  rows: ValidatedRow[];
+  summary: ValidationSummary;
+  /** The user's process parameters, to name mapped parameter columns. */
+  parameters: ProcessParameter[];
+  /** Called with an edit or delete of rows; the edited rows are what gets uploaded. */
+  onEdit: (edit: RowEdit) => void;
+  /** Every row with errors, which the preview may not hold. */
+  loadRejectedRows: () => Promise<ValidatedRow[]>;
+  uploading: boolean;
+  /** An edit is being applied; uploading and downloading wait for it. */
+  editing: boolean;
+  /** Percentage of batches committed while uploading. */
+  uploadProgress: number | null;
+  /** An interrupted upload of this file will be continued. */
+  resuming: boolean;
+  /** Filename of the upload the rows will be appended to, if any. */
+  appendTo: string | null;
+  /** Uploads the retention policy will remove when this one is committed. */
+  removals: RetentionCandidate[];
+  /** The policy archives those uploads instead of deleting them. */
+  archiveRemovals: boolean;
+  onUpload: () => void;
+  onEditMapping: () => void;
+  onCancel: () => void;
+}
+
+export default function DataPreviewCard({
+  fileName,
+  headers,
+  rows,
+  summary,
+  parameters,
+  onEdit,
+  loadRejectedRows,
+  uploading,
+  editing,
+  uploadProgress,
+  resuming,
+  appendTo,
+  removals,
+  archiveRemovals,
+  onUpload,
+  onEditMapping,
+  onCancel,
+}: DataPreviewCardProps) {
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkType, setBulkType] = useState('');
+
+  const { counts, missing, hasReadingTime } = summary;
+  const total = counts.ok + counts.warning + counts.error;
+  const visible = filter === 'all' ? rows : rows.filter((row) => row.status === filter);
+  // Rows without a reading time are only worth pointing out when the file has timestamps at all.
+  const missingFields = TARGET_FIELDS.filter(
+    (field) => missing[field] > 0 && (field !== 'reading_time' || hasReadingTime)
+  );
+
+  const mappedParameters = parameters.filter((parameter) => summary.parameterKeys.includes(parameter.key));
+
+  const fieldLabel = (field: ValidationIssue['field']) => {
+    const key = parameterKeyOf(field);
+    if (key === null) return t(FIELD_LABEL_KEYS[field as TargetField]);
+    return parameters.find((parameter) => parameter.key === key)?.name ?? key;
+  };
+
+  const describeIssue = (issue: ValidationIssue) =>
+    t(`upload.issues.${issue.code}`, { field: fieldLabel(issue.field), value: issue.value });
+
+  // The rows are read from the worker while they are staged, so they stay as they are until that is done.
+  const editRows = (rowNumbers: Set<number>, changes: Partial<ParsedRow>, typed: Partial<Record<TargetField, string>>) => {
+    if (!uploading) onEdit({ type: 'edit', rowNumbers: [...rowNumbers], changes, typed });
+  };
+
+  const deleteRows = (rowNumbers: number[]) => {
+    if (uploading) return;
+    const removed = new Set(rowNumbers);
+    onEdit({ type: 'delete', rowNumbers });
+    setSelected(new Set([...selected].filter((rowNumber) => !removed.has(rowNumber))));
+  };
+
+  const applyBulkType = () => {
+    const type = bulkType.trim();
+    if (!type) return;
+    editRows(selected, { equipment_type: type }, { equipment_type: type });
+    setBulkType('');
+  };
+
+  const downloadRejected = async () => {
+    const csv = rejectedRowsCsv(await loadRejectedRows(), headers, describeIssue);
+    downloadFile(csv, `${fileName.replace(/\.[^.]+$/, '')}-rejected.csv`, 'text/csv');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Check className="h-5 w-5 text-primary" />
+              {t('upload.preview')}
+            </CardTitle>
+            <CardDescription>
+              {acceptedCount(counts)} {t('upload.recordsFound')}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="outline" onClick={onEditMapping}>
+              <Columns3 className="mr-2 h-4 w-4" />
+              {t('upload.editMapping')}
+            </Button>
+            <Button onClick={onUpload} disabled={uploading || editing || acceptedCount(counts) === 0}>
+              {uploading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t('common.loading')}
+                </>
+              ) : (
+                <>
+                  <UploadIcon className="mr-2 h-4 w-4" />
+                  {resuming
+                    ? t('upload.resumeUpload')
+                    : appendTo
+                      ? t('upload.append.confirm', { filename: appendTo })
+                      : t('upload.confirmUpload')}
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {removals.length > 0 && (
+          <div className="flex gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+            <div>
+              <p>
+                {t(archiveRemovals ? 'upload.retentionArchive' : 'upload.retentionDelete', { count: removals.length })}
+              </p>
+              <p className="text-muted-foreground">{removals.map((upload) => upload.filename).join(', ')}</p>
+            </div>
+          </div>
+        )}
+        {uploadProgress !== null && (
+          <div className="space-y-1">
+            <Progress value={uploadProgress} />
+            <p className="text-right text-xs text-muted-foreground">{Math.round(uploadProgress)}%</p>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map((status) => (
+              <Button
+                key={status}
+                size="sm"
+                variant={filter === status ? 'default' : 'outline'}
+                onClick={() => setFilter(status)}
+              >
+                {t(`upload.rowStatus.${status}`)} ({status === 'all' ? total : counts[status]})
+              </Button>
+            ))}
+          </div>
+          {counts.error > 0 && (
+            <Button size="sm" variant="outline" onClick={downloadRejected} disabled={uploading || editing}>
+              <Download className="mr-2 h-4 w-4" />
+              {t('upload.downloadRejected')}
+            </Button>
+          )}
+        </div>
+        {counts.error > 0 && (
+          <p className="text-sm text-muted-foreground">{t('upload.rejectedHint', { count: counts.error })}</p>
+        )}
+        {rows.length < total && (
+          <p className="text-sm text-muted-foreground">
+            {t('upload.previewLimited', { shown: rows.length.toLocaleString(), total: total.toLocaleString() })}
+          </p>
+        )}
+        {missingFields.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            {t('upload.missingValues')}:
+            {missingFields.map((field) => (
+              <Badge key={field} variant="outline">
+                {t(FIELD_LABEL_KEYS[field])}: {missing[field]}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 p-2 text-sm">
+            <span className="px-2">{t('upload.grid.selected', { count: selected.size })}</span>
+            <Input
+              value={bulkType}
+              onChange={(e) => setBulkType(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyBulkType()}
+              placeholder={t('table.type')}
+              className="h-8 w-40"
+            />
+            <Button size="sm" variant="outline" onClick={applyBulkType} disabled={!bulkType.trim()}>
+              {t('upload.grid.setType')}
+            </Button>
+            <Button size="sm" variant="outline" className="text-destructive" onClick={() => deleteRows([...selected])}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t('upload.grid.deleteSelected')}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>
+              {t('upload.grid.clearSelection')}
+            </Button>
+          </div>
+        )}
+        <EditableRowsTable
+          rows={visible}
+          showReadingTime={hasReadingTime}
+          parameters={mappedParameters}
+          selected={selected}
+          onSelectedChange={setSelected}
+          onEdit={(rowNumber, changes, typed) => editRows(new Set([rowNumber]), changes, typed)}
+          onDelete={deleteRows}
+          describeIssue={describeIssue}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { BarChart3, Copy, RefreshCw } from 'lucide-react';
+
+export interface DuplicateUpload {
+  id: string;
+  filename: string;
+  created_at: string;
+}
+
+interface DuplicateUploadDialogProps {
+  /** Earlier upload with the same content hash; the dialog is open while set. */
+  duplicate: DuplicateUpload | null;
+  onClose: () => void;
+  onOpenExisting: (upload: DuplicateUpload) => void;
+  onUploadAnyway: () => void;
+  onReplace: (upload: DuplicateUpload) => void;
+}
+
+export default function DuplicateUploadDialog({
+  duplicate,
+  onClose,
+  onOpenExisting,
+  onUploadAnyway,
+  onReplace,
+}: DuplicateUploadDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <AlertDialog open={!!duplicate} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('upload.duplicate.title')}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {duplicate &&
+              t('upload.duplicate.description', {
+                file: duplicate.filename,
+                date: format(new Date(duplicate.created_at), 'MMM dd, yyyy HH:mm'),
+              })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="gap-2">
+          <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+          <Button variant="outline" onClick={() => duplicate && onOpenExisting(duplicate)}>
+            <BarChart3 className="mr-2 h-4 w-4" />
+            {t('upload.duplicate.openExisting')}
+          </Button>
+          <Button variant="outline" onClick={onUploadAnyway}>
+            <Copy className="mr-2 h-4 w-4" />
+            {t('upload.duplicate.uploadAnyway')}
+          </Button>
+          <Button onClick={() => duplicate && onReplace(duplicate)}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {t('upload.duplicate.replace')}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useUnits } from '@/contexts/UnitsContext';
+import { NUMERIC_FIELDS, NumericField, ParsedRow, TargetField } from '@/lib/columnMapping';
+import { NumberParseOptions, isUnreadableNumber, isUnreadableTimestamp, parseNumber, parseTimestamp } from '@/lib/parsing';
+import { ProcessParameter, parameterLabel } from '@/lib/processParameters';
+import { toBase } from '@/lib/units';
+import { RowStatus, ValidatedRow, ValidationIssue } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+
+const PAGE_SIZE = 25;
+
+// Cells show numbers with a point, so edits are read the same way whatever the import used.
+const EDIT_NUMBER_OPTIONS: NumberParseOptions = { decimalSeparator: '.', thousandsSeparator: '', nullTokens: [''] };
+
+// Local time, in a form parseTimestamp reads back.
+const TIMESTAMP_FORMAT = 'yyyy-MM-dd HH:mm:ss';
+
+const STATUS_VARIANTS: Record<RowStatus, 'default' | 'secondary' | 'destructive'> = {
+  ok: 'default',
+  warning: 'secondary',
+  error: 'destructive',
+};
+
+interface EditableCellProps {
+  value: string;
+  /** Returns false to reject the text, which puts the old value back. */
+  onCommit: (text: string) => boolean;
+  className?: string;
+}
+
+function EditableCell({ value, onCommit, className }: EditableCellProps) {
+  return (
+    <Input
+      key={value}
+      defaultValue={value}
+      className={cn('h-8 min-w-20', className)}
+      onBlur={(e) => {
+        if (e.target.value !== value && !onCommit(e.target.value)) e.target.value = value;
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          e.currentTarget.value = value;
+          e.currentTarget.blur();
+        }
+      }}
+    />
+  );
+}
+
+interface EditableRowsTableProps {
+  rows: ValidatedRow[];
+  /** The file has a reading time column, shown before the values. */
+  showReadingTime: boolean;
+  /** Mapped process parameters, shown read-only after the built-in values. */
+  parameters: ProcessParameter[];
+  /** Row numbers of the selected rows. */
+  selected: Set<number>;
+  onSelectedChange: (selected: Set<number>) => void;
+  onEdit: (rowNumber: number, changes: Partial<ParsedRow>, typed: Partial<Record<TargetField, string>>) => void;
+  onDelete: (rowNumbers: number[]) => void;
+  describeIssue: (issue: ValidationIssue) => string;
+}
+
+export default function EditableRowsTable({
+  rows,
+  showReadingTime,
+  parameters,
+  selected,
+  onSelectedChange,
+  onEdit,
+  onDelete,
+  describeIssue,
+}: EditableRowsTableProps) {
+  const { t } = useTranslation();
+  const { convert, displayUnits, withUnit } = useUnits();
+  const [page, setPage] = useState(0);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const allSelected = pageRows.length > 0 && pageRows.every((row) => selected.has(row.rowNumber));
+
+  const togglePage = (checked: boolean) => {
+    const next = new Set(selected);
+    pageRows.forEach((row) => (checked ? next.add(row.rowNumber) : next.delete(row.rowNumber)));
+    onSelectedChange(next);
+  };
+
+  const toggleRow = (rowNumber: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(rowNumber);
+    else next.delete(rowNumber);
+    onSelectedChange(next);
+  };
+
+  const commitText = (row: ValidatedRow, field: 'equipment_name' | 'equipment_type', text: string) => {
+    onEdit(row.rowNumber, { [field]: text.trim() || 'Unknown' }, { [field]: text });
+    return true;
+  };
+
+  // Typed in the display unit; stored in the base unit like imported values.
+  const commitNumber = (row: ValidatedRow, field: NumericField, text: string) => {
+    if (isUnreadableNumber(text, EDIT_NUMBER_OPTIONS)) return false;
+    const value = parseNumber(text, EDIT_NUMBER_OPTIONS);
+    onEdit(row.rowNumber, { [field]: value === null ? null : toBase(field, displayUnits[field], value) }, { [field]: text });
+    return true;
+  };
+
+  const commitTimestamp = (row: ValidatedRow, text: string) => {
+    if (isUnreadableTimestamp(text, EDIT_NUMBER_OPTIONS)) return false;
+    onEdit(row.rowNumber, { reading_time: parseTimestamp(text, EDIT_NUMBER_OPTIONS) }, { reading_time: text });
+    return true;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-lg border overflow-auto max-h-[32rem]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => togglePage(checked === true)}
+                  aria-label={t('upload.grid.selectPage')}
+                />
+              </TableHead>
+              <TableHead className="w-16">#</TableHead>
+              <TableHead>{t('table.equipmentName')}</TableHead>
+              <TableHead>{t('table.type')}</TableHead>
+              {showReadingTime && <TableHead>{t('table.readingTime')}</TableHead>}
+              {NUMERIC_FIELDS.map((field) => (
+                <TableHead key={field} className="text-right">
+                  {withUnit(t(`table.${field}`), field)}
+                </TableHead>
+              ))}
+              {parameters.map((parameter) => (
+                <TableHead key={parameter.id} className="text-right">
+                  {parameterLabel(parameter)}
+                </TableHead>
+              ))}
+              <TableHead>{t('upload.status')}</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageRows.map((row) => (
+              <TableRow key={row.rowNumber} className={cn(row.status === 'error' && 'bg-destructive/5')}>
+                <TableCell>
+                  <Checkbox
+                    checked={selected.has(row.rowNumber)}
+                    onCheckedChange={(checked) => toggleRow(row.rowNumber, checked === true)}
+                    aria-label={t('upload.grid.selectRow', { row: row.rowNumber })}
+                  />
+                </TableCell>
+                <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                <TableCell>
+                  <EditableCell
+                    value={row.data.equipment_name === 'Unknown' ? '' : row.data.equipment_name}
+                    onCommit={(text) => commitText(row, 'equipment_name', text)}
+                    className="font-medium"
+                  />
+                </TableCell>
+                <TableCell>
+                  <EditableCell
+                    value={row.data.equipment_type === 'Unknown' ? '' : row.data.equipment_type}
+                    onCommit={(text) => commitText(row, 'equipment_type', text)}
+                  />
+                </TableCell>
+                {showReadingTime && (
+                  <TableCell>
+                    <EditableCell
+                      value={row.data.reading_time ? format(new Date(row.data.reading_time), TIMESTAMP_FORMAT) : ''}
+                      onCommit={(text) => commitTimestamp(row, text)}
+                      className="min-w-44"
+                    />
+                  </TableCell>
+                )}
+                {NUMERIC_FIELDS.map((field) => (
+                  <TableCell key={field}>
+                    <EditableCell
+                      value={convert(field, row.data[field])?.toFixed(2) ?? ''}
+                      onCommit={(text) => commitNumber(row, field, text)}
+                      className="text-right"
+                    />
+                  </TableCell>
+                ))}
+                {parameters.map((parameter) => (
+                  <TableCell key={parameter.id} className="text-right">
+                    {row.data.extra[parameter.key]?.toFixed(2) ?? '-'}
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <div className="flex flex-col items-start gap-1">
+                    <div className="flex gap-1">
+                      <Badge variant={STATUS_VARIANTS[row.status]}>{t(`upload.rowStatus.${row.status}`)}</Badge>
+                      {row.edited && <Badge variant="outline">{t('upload.grid.edited')}</Badge>}
+                    </div>
+                    {row.issues.map((issue, index) => (
+                      <span key={index} className="text-xs text-muted-foreground">
+                        {describeIssue(issue)}
+                      </span>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title={t('upload.grid.deleteRow')}
+                    onClick={() => onDelete([row.rowNumber])}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+          {t('upload.grid.page', { page: currentPage + 1, pages: pageCount, rows: rows.length })}
+          <Button size="sm" variant="outline" disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
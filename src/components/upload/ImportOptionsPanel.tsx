@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { ImportProfile } from '@/lib/importProfiles';
+import {
+  DELIMITER_OPTIONS,
+  DecimalSeparator,
+  ParseOptions,
+  THOUSANDS_SEPARATOR_OPTIONS,
+  ThousandsSeparator,
+  parseNullTokens,
+} from '@/lib/parsing';
+
+const NO_PROFILE = 'none';
+const AUTO_DELIMITER = 'auto';
+const NO_GROUPING = 'none';
+
+interface ImportOptionsPanelProps {
+  profiles: ImportProfile[];
+  selectedProfileId: string | null;
+  onProfileChange: (profile: ImportProfile | null) => void;
+  onDeleteProfile: (profile: ImportProfile) => void;
+  options: ParseOptions;
+  onOptionsChange: (options: ParseOptions) => void;
+}
+
+export default function ImportOptionsPanel({
+  profiles,
+  selectedProfileId,
+  onProfileChange,
+  onDeleteProfile,
+  options,
+  onOptionsChange,
+}: ImportOptionsPanelProps) {
+  const { t } = useTranslation();
+  const selectedProfile = profiles.find((p) => p.id === selectedProfileId) ?? null;
+  const tokensText = options.nullTokens.filter(Boolean).join(', ');
+  // Edited as free text and parsed on blur, so tokens containing spaces can be typed.
+  const [nullTokensDraft, setNullTokensDraft] = useState(tokensText);
+
+  useEffect(() => setNullTokensDraft(tokensText), [tokensText]);
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      <div className="space-y-2">
+        <Label>{t('upload.importProfile')}</Label>
+        <div className="flex gap-2">
+          <Select
+            value={selectedProfileId ?? NO_PROFILE}
+            onValueChange={(value) => onProfileChange(profiles.find((p) => p.id === value) ?? null)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROFILE}>{t('upload.noProfile')}</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedProfile && (
+            <Button
+              variant="outline"
+              size="icon"
+              className="shrink-0 text-destructive"
+              onClick={() => onDeleteProfile(selectedProfile)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>{t('upload.delimiter')}</Label>
+        <Select
+          value={options.delimiter || AUTO_DELIMITER}
+          onValueChange={(value) => onOptionsChange({ ...options, delimiter: value === AUTO_DELIMITER ? '' : value })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DELIMITER_OPTIONS.map((d) => (
+              <SelectItem key={d.label} value={d.value || AUTO_DELIMITER}>
+                {t(`upload.delimiters.${d.label}`, { defaultValue: d.label })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>{t('upload.decimalSeparator')}</Label>
+        <Select
+          value={options.decimalSeparator}
+          onValueChange={(value) => {
+            const decimalSeparator = value as DecimalSeparator;
+            // A separator cannot be both decimal and grouping; drop the grouping one.
+            const thousandsSeparator = options.thousandsSeparator === decimalSeparator ? '' : options.thousandsSeparator;
+            onOptionsChange({ ...options, decimalSeparator, thousandsSeparator });
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value=".">{t('upload.decimalPoint')}</SelectItem>
+            <SelectItem value=",">{t('upload.decimalComma')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>{t('upload.thousandsSeparator')}</Label>
+        <Select
+          value={options.thousandsSeparator || NO_GROUPING}
+          onValueChange={(value) =>
+            onOptionsChange({ ...options, thousandsSeparator: (value === NO_GROUPING ? '' : value) as ThousandsSeparator })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {THOUSANDS_SEPARATOR_OPTIONS.filter((s) => s.value !== options.decimalSeparator).map((s) => (
+              <SelectItem key={s.label} value={s.value || NO_GROUPING}>
+                {t(`upload.thousandsSeparators.${s.label}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="headerRowOffset">{t('upload.headerRowOffset')}</Label>
+        <Input
+          id="headerRowOffset"
+          type="number"
+          min={0}
+          value={options.headerRowOffset}
+          onChange={(e) => onOptionsChange({ ...options, headerRowOffset: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="nullTokens">{t('upload.nullTokens')}</Label>
+        <Input
+          id="nullTokens"
+          value={nullTokensDraft}
+          onChange={(e) => setNullTokensDraft(e.target.value)}
+          onBlur={() => onOptionsChange({ ...options, nullTokens: parseNullTokens(nullTokensDraft) })}
+          placeholder="NA, -, n/a"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Braces } from 'lucide-react';
+
+interface JsonSelectorCardProps {
+  selector: string;
+  recordCount: number | null;
+  onSelectorChange: (selector: string) => void;
+}
+
+export default function JsonSelectorCard({ selector, recordCount, onSelectorChange }: JsonSelectorCardProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(selector);
+
+  useEffect(() => setDraft(selector), [selector]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Braces className="h-5 w-5 text-primary" />
+          {t('upload.jsonRecords')}
+        </CardTitle>
+        <CardDescription>{t('upload.jsonSelectorHint')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex flex-col gap-2 sm:flex-row sm:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSelectorChange(draft.trim() || '$');
+          }}
+        >
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="recordSelector">{t('upload.recordSelector')}</Label>
+            <Input
+              id="recordSelector"
+              className="font-mono"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="$.data.readings"
+            />
+          </div>
+          <Button type="submit" variant="outline">
+            {t('upload.applySelector')}
+          </Button>
+        </form>
+        {recordCount !== null && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            {recordCount} {t('upload.recordsFound')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
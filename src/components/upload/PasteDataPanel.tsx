@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowRight, ClipboardPaste } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PasteDataPanelProps {
+  /** Called with the dataset name, which becomes the upload's filename, and the pasted text. */
+  onSubmit: (datasetName: string, text: string) => void;
+}
+
+/** Takes a table copied from Excel or a web page as tab-separated or CSV text. */
+export default function PasteDataPanel({ onSubmit }: PasteDataPanelProps) {
+  const { t } = useTranslation();
+  const [datasetName, setDatasetName] = useState('');
+  const [text, setText] = useState('');
+
+  const lineCount = text.split(/\r?\n/).filter((line) => line.trim()).length;
+  const canSubmit = datasetName.trim() !== '' && lineCount >= 2;
+
+  // Browsers only allow reading the clipboard after the user grants permission.
+  const pasteFromClipboard = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+    } catch (err) {
+      console.error('Error reading clipboard:', err);
+      toast.error(t('upload.paste.clipboardDenied'));
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSubmit) onSubmit(datasetName, text);
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="datasetName">{t('upload.paste.datasetName')}</Label>
+        <Input
+          id="datasetName"
+          value={datasetName}
+          onChange={(e) => setDatasetName(e.target.value)}
+          placeholder={t('upload.paste.datasetNamePlaceholder')}
+        />
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="pastedData">{t('upload.paste.data')}</Label>
+          <Button type="button" variant="ghost" size="sm" onClick={pasteFromClipboard}>
+            <ClipboardPaste className="mr-2 h-4 w-4" />
+            {t('upload.paste.fromClipboard')}
+          </Button>
+        </div>
+        <Textarea
+          id="pastedData"
+          className="min-h-48 font-mono text-xs"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t('upload.paste.placeholder')}
+          spellCheck={false}
+        />
+        <p className="text-sm text-muted-foreground">
+          {lineCount > 0 ? t('upload.paste.lines', { count: lineCount }) : t('upload.paste.hint')}
+        </p>
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" disabled={!canSubmit}>
+          {t('upload.paste.continue')}
+          <ArrowRight className="ml-2 h-4 w-4" />
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Loader2, Save } from 'lucide-react';
+
+interface SaveProfileDialogProps {
+  defaultName?: string;
+  onSave: (name: string) => Promise<void>;
+}
+
+export default function SaveProfileDialog({ defaultName = '', onSave }: SaveProfileDialogProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(defaultName);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(name.trim());
+      setOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (value) setName(defaultName); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Save className="mr-2 h-4 w-4" />
+          {t('upload.saveProfile')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('upload.saveProfile')}</DialogTitle>
+          <DialogDescription>{t('upload.saveProfileDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="profileName">{t('upload.profileName')}</Label>
+          <Input id="profileName" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import { FileSpreadsheet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Enough rows to spot a header sitting below a title block or notes.
+const PREVIEW_ROWS = 8;
+const PREVIEW_COLUMNS = 8;
+
+interface SheetPickerCardProps {
+  sheetNames: string[];
+  selectedSheet: string;
+  onSheetChange: (sheetName: string) => void;
+  rows: string[][];
+  headerRowOffset: number;
+  onHeaderRowChange: (offset: number) => void;
+}
+
+export default function SheetPickerCard({
+  sheetNames,
+  selectedSheet,
+  onSheetChange,
+  rows,
+  headerRowOffset,
+  onHeaderRowChange,
+}: SheetPickerCardProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5 text-primary" />
+          {t('upload.worksheet')}
+        </CardTitle>
+        <CardDescription>{t('upload.headerRowHint')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-xs space-y-2">
+          <Label>{t('upload.sheet')}</Label>
+          <Select value={selectedSheet} onValueChange={onSheetChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheetNames.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="rounded-lg border overflow-auto">
+          <Table>
+            <TableBody>
+              {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                <TableRow
+                  key={index}
+                  onClick={() => onHeaderRowChange(index)}
+                  className={cn('cursor-pointer', index === headerRowOffset && 'bg-primary/10 font-semibold')}
+                >
+                  <TableCell className="w-12 text-muted-foreground">{index + 1}</TableCell>
+                  {row.slice(0, PREVIEW_COLUMNS).map((cell, column) => (
+                    <TableCell key={column} className="max-w-[160px] truncate">
+                      {cell}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, BarChart3, Columns3, Files, Loader2, Upload as UploadIcon, X } from 'lucide-react';
+import { QueueItem, QueueStatus, readyItems } from '@/lib/uploadQueue';
+import { RetentionCandidate } from '@/lib/retention';
+import { formatBytes } from '@/lib/utils';
+
+const STATUS_VARIANTS: Record<QueueStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  processing: 'outline',
+  needsMapping: 'secondary',
+  ready: 'default',
+  uploading: 'outline',
+  done: 'default',
+  failed: 'destructive',
+};
+
+interface UploadQueueCardProps {
+  queue: QueueItem[];
+  /** A file is being read or uploaded; actions that need the worker wait. */
+  busy: boolean;
+  /** Uploads the retention policy will remove when every ready file is committed. */
+  removals: RetentionCandidate[];
+  /** Ready files the policy will remove again before the last one is committed. */
+  queuedRemovals: QueueItem[];
+  archiveRemovals: boolean;
+  onReview: (item: QueueItem) => void;
+  onUpload: (item: QueueItem) => void;
+  onUploadAll: () => void;
+  onRemove: (item: QueueItem) => void;
+  onOpen: (item: QueueItem) => void;
+  onClear: () => void;
+}
+
+export default function UploadQueueCard({
+  queue,
+  busy,
+  removals,
+  queuedRemovals,
+  archiveRemovals,
+  onReview,
+  onUpload,
+  onUploadAll,
+  onRemove,
+  onOpen,
+  onClear,
+}: UploadQueueCardProps) {
+  const { t } = useTranslation();
+  const ready = readyItems(queue);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Files className="h-5 w-5 text-primary" />
+              {t('upload.queue.title')}
+            </CardTitle>
+            <CardDescription>{t('upload.queue.description', { count: queue.length })}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClear} disabled={busy}>
+              {t('upload.queue.clear')}
+            </Button>
+            <Button onClick={onUploadAll} disabled={busy || ready.length === 0}>
+              <UploadIcon className="mr-2 h-4 w-4" />
+              {t('upload.queue.uploadAll', { count: ready.length })}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(removals.length > 0 || queuedRemovals.length > 0) && (
+          <div className="flex gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+            <div className="space-y-1">
+              {removals.length > 0 && (
+                <>
+                  <p>
+                    {t(archiveRemovals ? 'upload.retentionArchive' : 'upload.retentionDelete', { count: removals.length })}
+                  </p>
+                  <p className="text-muted-foreground">{removals.map((upload) => upload.filename).join(', ')}</p>
+                </>
+              )}
+              {queuedRemovals.length > 0 && (
+                <>
+                  <p>
+                    {t(archiveRemovals ? 'upload.queue.retentionArchiveQueued' : 'upload.queue.retentionDeleteQueued', {
+                      count: queuedRemovals.length,
+                    })}
+                  </p>
+                  <p className="text-muted-foreground">{queuedRemovals.map((item) => item.file.name).join(', ')}</p>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+        <div className="rounded-lg border overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('history.filename')}</TableHead>
+                <TableHead>{t('upload.status')}</TableHead>
+                <TableHead>{t('upload.queue.summary')}</TableHead>
+                <TableHead>{t('upload.queue.mapping')}</TableHead>
+                <TableHead className="text-right">{t('history.actions')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <p className="font-medium">{item.file.name}</p>
+                    <p className="text-xs text-muted-foreground">{formatBytes(item.file.size)}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col items-start gap-1">
+                      <Badge variant={STATUS_VARIANTS[item.status]} className="gap-1">
+                        {(item.status === 'processing' || item.status === 'uploading') && (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        )}
+                        {t(`upload.queue.status.${item.status}`)}
+                      </Badge>
+                      {item.status === 'uploading' && item.progress !== null && (
+                        <Progress value={item.progress} className="h-1 w-24" />
+                      )}
+                      {item.error && <span className="text-xs text-destructive">{item.error}</span>}
+                      {item.duplicateOf && item.status !== 'done' && (
+                        <span className="text-xs text-muted-foreground">
+                          {t('upload.queue.duplicateOf', { file: item.duplicateOf.filename })}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {item.counts ? (
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="default">{t('upload.rowStatus.ok')}: {item.counts.ok}</Badge>
+                        {item.counts.warning > 0 && (
+                          <Badge variant="secondary">{t('upload.rowStatus.warning')}: {item.counts.warning}</Badge>
+                        )}
+                        {item.counts.error > 0 && (
+                          <Badge variant="destructive">{t('upload.rowStatus.error')}: {item.counts.error}</Badge>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {item.status === 'needsMapping'
+                      ? t('upload.queue.mappingNeeded')
+                      : item.mapping.length > 0 && (item.profileName ?? t('upload.queue.autoMapped'))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {item.status === 'done' ? (
+                        <Button size="sm" variant="outline" title={t('nav.visualization')} onClick={() => onOpen(item)}>
+                          <BarChart3 className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title={t('upload.editMapping')}
+                            disabled={busy || item.status === 'pending'}
+                            onClick={() => onReview(item)}
+                          >
+                            <Columns3 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title={t('upload.confirmUpload')}
+                            disabled={busy || item.status !== 'ready' || item.rowCount === 0}
+                            onClick={() => onUpload(item)}
+                          >
+                            <UploadIcon className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title={t('upload.queue.remove')}
+                        disabled={item.status === 'processing' || item.status === 'uploading'}
+                        onClick={() => onRemove(item)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
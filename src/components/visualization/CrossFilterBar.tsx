@@ -0,0 +1,51 @@
+import { useTranslation } from 'react-i18next';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Filter, X } from 'lucide-react';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { CrossFilter, NO_CROSS_FILTER, toggleType } from '@/lib/crossFilter';
+import { Metric } from '@/lib/metrics';
+
+interface CrossFilterBarProps {
+  filter: CrossFilter;
+  onChange: (filter: CrossFilter) => void;
+  /** Readings left after the filter, out of the upload's total. */
+  matching: number;
+  total: number;
+}
+
+/** The selections made in the charts, each removable on its own. */
+export default function CrossFilterBar({ filter, onChange, matching, total }: CrossFilterBarProps) {
+  const { t } = useTranslation();
+  const { metricLabel, formatValue } = useMetricDisplay();
+
+  const range = (metric: Metric, [min, max]: [number, number]) =>
+    `${metricLabel(metric)} ${formatValue(metric, min)}–${formatValue(metric, max)}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 px-4 py-2 text-sm">
+      <Filter className="h-4 w-4 text-muted-foreground" />
+      <span className="text-muted-foreground">{t('visualization.crossFilter.filteredBy')}</span>
+      {filter.types.map((type) => (
+        <Badge key={type} variant="secondary" className="gap-1">
+          {type}
+          <button type="button" title={t('visualization.crossFilter.remove')} onClick={() => onChange(toggleType(filter, type))}>
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {filter.region && (
+        <Badge variant="secondary" className="gap-1">
+          {range(filter.region.x, filter.region.xRange)}, {range(filter.region.y, filter.region.yRange)}
+          <button type="button" title={t('visualization.crossFilter.remove')} onClick={() => onChange({ ...filter, region: null })}>
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      )}
+      <span className="text-muted-foreground">{t('visualization.crossFilter.matching', { matching, total })}</span>
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={() => onChange(NO_CROSS_FILTER)}>
+        {t('visualization.crossFilter.clear')}
+      </Button>
+    </div>
+  );
+}
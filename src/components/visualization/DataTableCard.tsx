@@ -0,0 +1,324 @@
+import { ReactNode, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Filter, Loader2, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { useUnits } from '@/contexts/UnitsContext';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { DataTableRow, useDataTableRows } from '@/hooks/use-data-table-rows';
+import { DataColumn, DataTableQuery, metricColumn, nextSort, visibleWindow } from '@/lib/dataTable';
+import { CrossFilter, withRegionRanges } from '@/lib/crossFilter';
+import type { Limit } from '@/lib/equipment';
+import { Metric, metricValue } from '@/lib/metrics';
+import { toBase } from '@/lib/units';
+
+// Rows have a fixed height so the scroll position alone decides which ones are on screen.
+const ROW_HEIGHT = 37;
+const VIEWPORT_HEIGHT = 384;
+const SEARCH_DELAY_MS = 300;
+
+interface Column {
+  id: string;
+  label: string;
+  sortColumn: DataColumn;
+  numeric?: boolean;
+  render: (row: DataTableRow) => ReactNode;
+}
+
+type RangeDraft = Record<string, { min: string; max: string }>;
+
+const parseBound = (text: string) => (text.trim() === '' ? null : Number(text));
+
+interface DataTableCardProps {
+  uploadId: string;
+  metrics: Metric[];
+  /** Selections made in the charts, on top of the table's own search and filters. */
+  crossFilter: CrossFilter;
+}
+
+/**
+ * Every row of the upload, sorted and filtered by the database and fetched
+ * page by page as the user scrolls, so large uploads stay responsive.
+ */
+export default function DataTableCard({ uploadId, metrics, crossFilter }: DataTableCardProps) {
+  const { t } = useTranslation();
+  const { displayUnits } = useUnits();
+  const { metricLabel, formatValue } = useMetricDisplay();
+  const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<DataTableQuery['sort']>(null);
+  // Applied ranges per metric id, in stored units.
+  const [ranges, setRanges] = useState<Record<string, Limit>>({});
+  const [rangeDraft, setRangeDraft] = useState<RangeDraft>({});
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchText), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const query = useMemo<DataTableQuery>(
+    () => ({
+      search,
+      types: crossFilter.types,
+      sort,
+      ranges: withRegionRanges(
+        Object.fromEntries(
+          metrics.filter((metric) => ranges[metric.id]).map((metric) => [metricColumn(metric), ranges[metric.id]])
+        ),
+        crossFilter.region
+      ),
+    }),
+    [search, sort, ranges, metrics, crossFilter]
+  );
+  const { total, loading, rowAt, ensureRows } = useDataTableRows(uploadId, query);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [query]);
+
+  const { start, end } = visibleWindow(scrollTop, VIEWPORT_HEIGHT, ROW_HEIGHT, total ?? 0);
+  useEffect(() => {
+    ensureRows(start, end);
+  }, [start, end, ensureRows]);
+
+  const columns: Column[] = [
+    { id: 'equipment_name', label: t('table.equipmentName'), sortColumn: 'equipment_name', render: (row) => row.equipment_name },
+    { id: 'equipment_type', label: t('table.type'), sortColumn: 'equipment_type', render: (row) => row.equipment_type },
+    {
+      id: 'reading_time',
+      label: t('table.readingTime'),
+      sortColumn: 'reading_time',
+      render: (row) => (row.reading_time ? format(new Date(row.reading_time), 'MMM dd, yyyy HH:mm') : '-'),
+    },
+    ...metrics.map(
+      (metric): Column => ({
+        id: metric.id,
+        label: metricLabel(metric),
+        sortColumn: metricColumn(metric),
+        numeric: true,
+        render: (row) => formatValue(metric, metricValue(row, metric)),
+      })
+    ),
+  ];
+  const shownColumns = columns.filter((column) => !hiddenColumns.includes(column.id));
+
+  const toStored = (metric: Metric, text: string | undefined) => {
+    const value = parseBound(text ?? '');
+    if (value === null || Number.isNaN(value) || !('quantity' in metric)) return value;
+    return toBase(metric.quantity, displayUnits[metric.quantity], value);
+  };
+  const draftRanges = Object.fromEntries(
+    metrics.map((metric) => [
+      metric.id,
+      { min: toStored(metric, rangeDraft[metric.id]?.min), max: toStored(metric, rangeDraft[metric.id]?.max) },
+    ])
+  );
+  const invalidRange = Object.values(draftRanges).some(
+    ({ min, max }) => Number.isNaN(min) || Number.isNaN(max) || (min !== null && max !== null && min > max)
+  );
+  const activeFilters = metrics.filter((metric) => ranges[metric.id]).length;
+
+  const updateDraft = (id: string, bound: 'min' | 'max', value: string) =>
+    setRangeDraft({ ...rangeDraft, [id]: { ...(rangeDraft[id] ?? { min: '', max: '' }), [bound]: value } });
+
+  const applyRanges = () =>
+    setRanges(
+      Object.fromEntries(Object.entries(draftRanges).filter(([, { min, max }]) => min !== null || max !== null))
+    );
+
+  const clearRanges = () => {
+    setRangeDraft({});
+    setRanges({});
+  };
+
+  const sortIcon = (column: Column) => {
+    if (sort?.column !== column.sortColumn) return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+    return sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  const firstShown = total ? Math.min(total, Math.floor(scrollTop / ROW_HEIGHT) + 1) : 0;
+  const lastShown = Math.min(total ?? 0, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>{t('visualization.dataTable')}</CardTitle>
+        <div className="flex flex-wrap gap-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              className="w-[220px] pl-9"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder={t('visualization.table.searchPlaceholder')}
+            />
+          </div>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline">
+                <Filter className="h-4 w-4" />
+                <span className="ml-2 hidden sm:inline">{t('visualization.table.filters')}</span>
+                {activeFilters > 0 && <Badge variant="secondary" className="ml-2">{activeFilters}</Badge>}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 space-y-4">
+              <p className="text-sm text-muted-foreground">{t('visualization.table.filtersDescription')}</p>
+              {metrics.map((metric) => (
+                <div key={metric.id} className="space-y-1">
+                  <Label>{metricLabel(metric)}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      step="any"
+                      value={rangeDraft[metric.id]?.min ?? ''}
+                      onChange={(e) => updateDraft(metric.id, 'min', e.target.value)}
+                      placeholder={t('visualization.table.min')}
+                    />
+                    <Input
+                      type="number"
+                      step="any"
+                      value={rangeDraft[metric.id]?.max ?? ''}
+                      onChange={(e) => updateDraft(metric.id, 'max', e.target.value)}
+                      placeholder={t('visualization.table.max')}
+                    />
+                  </div>
+                </div>
+              ))}
+              {invalidRange && <p className="text-sm text-destructive">{t('settings.parameters.invalidRange')}</p>}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={clearRanges}>
+                  {t('visualization.table.clear')}
+                </Button>
+                <Button size="sm" onClick={applyRanges} disabled={invalidRange}>
+                  {t('visualization.table.apply')}
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Columns3 className="h-4 w-4" />
+                <span className="ml-2 hidden sm:inline">{t('visualization.table.columns')}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>{t('visualization.table.shownColumns')}</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {columns.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={!hiddenColumns.includes(column.id)}
+                  onCheckedChange={(checked) =>
+                    setHiddenColumns(
+                      checked ? hiddenColumns.filter((id) => id !== column.id) : [...hiddenColumns, column.id]
+                    )
+                  }
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {column.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div
+          ref={scrollRef}
+          className="rounded-lg border overflow-auto"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          {/* A plain table: the Table wrapper's own overflow would stop the header from sticking. */}
+          <table className="w-full caption-bottom text-sm">
+            <TableHeader className="sticky top-0 z-10 bg-card">
+              <TableRow>
+                {shownColumns.map((column) => (
+                  <TableHead
+                    key={column.id}
+                    className={column.numeric ? 'text-right' : undefined}
+                    aria-sort={
+                      sort?.column === column.sortColumn ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'
+                    }
+                  >
+                    <button
+                      type="button"
+                      className={`inline-flex items-center gap-1 whitespace-nowrap hover:text-foreground ${column.numeric ? 'flex-row-reverse' : ''}`}
+                      onClick={() => setSort(nextSort(sort, column.sortColumn))}
+                    >
+                      {column.label}
+                      {sortIcon(column)}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={shownColumns.length} className="text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              )}
+              {total === 0 && (
+                <TableRow>
+                  <TableCell colSpan={shownColumns.length} className="text-center text-muted-foreground">
+                    {t('visualization.table.noMatches')}
+                  </TableCell>
+                </TableRow>
+              )}
+              {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+              {Array.from({ length: end - start }, (_, offset) => {
+                const index = start + offset;
+                const row = rowAt(index);
+                return (
+                  <TableRow key={row?.id ?? `pending-${index}`} style={{ height: ROW_HEIGHT }}>
+                    {shownColumns.map((column) => (
+                      <TableCell
+                        key={column.id}
+                        className={`py-0 whitespace-nowrap ${column.numeric ? 'text-right' : ''}`}
+                      >
+                        {row ? column.render(row) : <Skeleton className="h-4 w-full" />}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+              {total !== null && end < total && <tr style={{ height: (total - end) * ROW_HEIGHT }} />}
+            </TableBody>
+          </table>
+        </div>
+        {total !== null && total > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {t('visualization.table.rowsOf', {
+              from: firstShown.toLocaleString(),
+              to: lastShown.toLocaleString(),
+              total: total.toLocaleString(),
+            })}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { PointerEvent, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Chart as ChartJS } from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { useUnits } from '@/contexts/UnitsContext';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { CrossFilterRow, ScatterRegion, inRegion } from '@/lib/crossFilter';
+import { Metric, metricValue } from '@/lib/metrics';
+import { toBase } from '@/lib/units';
+
+// Drags shorter than this are clicks, which clear the selection.
+const MIN_BRUSH_PX = 4;
+
+const SELECTED_COLOR = 'hsl(153, 100%, 17%)';
+const UNSELECTED_COLOR = 'hsla(153, 20%, 50%, 0.25)';
+
+interface Brush {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+interface ScatterCardProps {
+  readings: CrossFilterRow[];
+  metrics: Metric[];
+  region: ScatterRegion | null;
+  onRegionChange: (region: ScatterRegion | null) => void;
+}
+
+/** Two metrics against each other; dragging a rectangle selects the readings inside it. */
+export default function ScatterCard({ readings, metrics, region, onRegionChange }: ScatterCardProps) {
+  const { t } = useTranslation();
+  const { displayUnits } = useUnits();
+  const { metricLabel, displayValue } = useMetricDisplay();
+  const [xId, setXId] = useState<string>('flowrate');
+  const [yId, setYId] = useState<string>('pressure');
+  const [brush, setBrush] = useState<Brush | null>(null);
+  const chartRef = useRef<ChartJS<'scatter'>>(null);
+
+  const xMetric = metrics.find((m) => m.id === xId) ?? metrics[0];
+  const yMetric = metrics.find((m) => m.id === yId) ?? metrics[1];
+
+  const points = readings
+    .map((row) => ({
+      x: displayValue(xMetric, metricValue(row, xMetric)),
+      y: displayValue(yMetric, metricValue(row, yMetric)),
+      selected: !region || inRegion(row, region),
+    }))
+    .filter((point): point is { x: number; y: number; selected: boolean } => point.x !== null && point.y !== null);
+
+  const toStored = (metric: Metric, value: number) =>
+    'quantity' in metric ? toBase(metric.quantity, displayUnits[metric.quantity], value) : value;
+
+  const position = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startBrush = (e: PointerEvent<HTMLDivElement>) => {
+    const area = chartRef.current?.chartArea;
+    const { x, y } = position(e);
+    if (!area || x < area.left || x > area.right || y < area.top || y > area.bottom) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setBrush({ startX: x, startY: y, x, y });
+  };
+
+  const moveBrush = (e: PointerEvent<HTMLDivElement>) => {
+    if (brush) setBrush({ ...brush, ...position(e) });
+  };
+
+  const endBrush = () => {
+    const chart = chartRef.current;
+    if (!brush || !chart) return;
+    setBrush(null);
+    if (Math.abs(brush.x - brush.startX) < MIN_BRUSH_PX && Math.abs(brush.y - brush.startY) < MIN_BRUSH_PX) {
+      onRegionChange(null);
+      return;
+    }
+    // Scales map pixels to the displayed values; the region is kept in stored units.
+    const xs = [brush.startX, brush.x].map((px) => toStored(xMetric, chart.scales.x.getValueForPixel(px) ?? 0));
+    const ys = [brush.startY, brush.y].map((px) => toStored(yMetric, chart.scales.y.getValueForPixel(px) ?? 0));
+    onRegionChange({
+      x: xMetric,
+      y: yMetric,
+      xRange: [Math.min(...xs), Math.max(...xs)],
+      yRange: [Math.min(...ys), Math.max(...ys)],
+    });
+  };
+
+  const data = {
+    datasets: [
+      {
+        label: `${metricLabel(yMetric)} vs ${metricLabel(xMetric)}`,
+        data: points,
+        backgroundColor: points.map((point) => (point.selected ? SELECTED_COLOR : UNSELECTED_COLOR)),
+      },
+    ],
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>{t('visualization.parameterComparison')}</CardTitle>
+          <CardDescription>{t('visualization.crossFilter.brushHint')}</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {[{ value: xMetric.id, onChange: setXId }, { value: yMetric.id, onChange: setYId }].map((axis, index) => (
+            <Select key={index} value={axis.value} onValueChange={axis.onChange}>
+              <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {metrics.map((m) => (<SelectItem key={m.id} value={m.id}>{metricLabel(m)}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="h-[300px]">
+        <div
+          className="relative h-full touch-none select-none"
+          onPointerDown={startBrush}
+          onPointerMove={moveBrush}
+          onPointerUp={endBrush}
+          onPointerCancel={() => setBrush(null)}
+        >
+          <Scatter
+            ref={chartRef}
+            data={data}
+            options={{
+              maintainAspectRatio: false,
+              scales: {
+                x: { title: { display: true, text: metricLabel(xMetric) } },
+                y: { title: { display: true, text: metricLabel(yMetric) } },
+              },
+            }}
+          />
+          {brush && (
+            <div
+              className="pointer-events-none absolute border border-primary bg-primary/10"
+              style={{
+                left: Math.min(brush.startX, brush.x),
+                top: Math.min(brush.startY, brush.y),
+                width: Math.abs(brush.x - brush.startX),
+                height: Math.abs(brush.y - brush.startY),
+              }}
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
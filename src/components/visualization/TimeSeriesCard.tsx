@@ -0,0 +1,185 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { Chart as ChartJS, LinearScale, LineElement, PointElement, Tooltip } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { format } from 'date-fns';
+import { useMetricDisplay } from '@/hooks/use-metrics';
+import { useReadingSeries, useTimedEquipment } from '@/hooks/use-time-series';
+import type { CrossFilter } from '@/lib/crossFilter';
+import { tagKey } from '@/lib/equipment';
+import { Metric, metricValue } from '@/lib/metrics';
+
+ChartJS.register(LinearScale, LineElement, PointElement, Tooltip);
+
+const LINE_COLORS = [
+  'hsl(153, 100%, 17%)',
+  'hsl(210, 70%, 40%)',
+  'hsl(20, 80%, 45%)',
+  'hsl(280, 50%, 45%)',
+  'hsl(45, 90%, 40%)',
+];
+
+// Zooming never narrows the window below a minute.
+const MIN_SPAN_MS = 60_000;
+
+type Range = [number, number];
+
+/** Tick format that still tells readings apart at the current zoom level. */
+function tickFormat(span: number) {
+  if (span <= 2 * 24 * 3600_000) return 'HH:mm';
+  if (span <= 90 * 24 * 3600_000) return 'MMM d';
+  return 'MMM yyyy';
+}
+
+interface TimeSeriesCardProps {
+  uploadId: string;
+  /** Readings outside the Visualization selections are left out of the series. */
+  crossFilter: CrossFilter;
+  /** One chart per metric, stacked and sharing the time window. */
+  metrics: Metric[];
+  /** Equipment to show first, e.g. when opened from its equipment page. */
+  initialEquipment?: string;
+}
+
+/** Metrics of one piece of equipment over time, with a shared time window. */
+export default function TimeSeriesCard({ uploadId, crossFilter, metrics, initialEquipment }: TimeSeriesCardProps) {
+  const { t } = useTranslation();
+  const { metricLabel, displayValue } = useMetricDisplay();
+
+  const equipmentNames = useTimedEquipment(uploadId, crossFilter);
+  const [equipment, setEquipment] = useState<string | null>(initialEquipment ?? null);
+  const current =
+    (equipment !== null && equipmentNames.find((name) => tagKey(name) === tagKey(equipment))) || equipmentNames[0];
+
+  const readings = useReadingSeries(uploadId, crossFilter, current);
+  const series = useMemo(() => readings.map((r) => ({ ...r, time: new Date(r.reading_time).getTime() })), [readings]);
+  const domain: Range = series.length > 0 ? [series[0].time, series[series.length - 1].time] : [0, 0];
+
+  const [range, setRange] = useState<Range | null>(null);
+  // The window resets whenever it falls outside the data, e.g. after switching equipment.
+  const view: Range = range && range[0] >= domain[0] && range[1] <= domain[1] ? range : domain;
+  const span = view[1] - view[0];
+
+  const zoom = (factor: number) => {
+    const center = (view[0] + view[1]) / 2;
+    const half = Math.max(span * factor, MIN_SPAN_MS) / 2;
+    setRange([Math.max(domain[0], Math.round(center - half)), Math.min(domain[1], Math.round(center + half))]);
+  };
+
+  if (equipmentNames.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>{t('visualization.timeSeries.title')}</CardTitle>
+            <CardDescription>
+              {format(view[0], 'PPp')} – {format(view[1], 'PPp')}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={current}
+              onValueChange={(name) => {
+                setEquipment(name);
+                setRange(null);
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder={t('visualization.timeSeries.equipment')} />
+              </SelectTrigger>
+              <SelectContent>
+                {equipmentNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              title={t('visualization.timeSeries.zoomIn')}
+              disabled={span <= MIN_SPAN_MS}
+              onClick={() => zoom(0.5)}
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title={t('visualization.timeSeries.zoomOut')}
+              disabled={view[0] === domain[0] && view[1] === domain[1]}
+              onClick={() => zoom(2)}
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title={t('visualization.timeSeries.reset')}
+              disabled={range === null}
+              onClick={() => setRange(null)}
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {domain[1] > domain[0] && (
+          <Slider
+            min={domain[0]}
+            max={domain[1]}
+            step={Math.max(1, Math.floor((domain[1] - domain[0]) / 1000))}
+            minStepsBetweenThumbs={1}
+            value={view}
+            onValueChange={(value) => setRange([value[0], value[1]])}
+            aria-label={t('visualization.timeSeries.range')}
+          />
+        )}
+        {metrics.map((metric, index) => (
+          <div key={metric.id} className="h-[200px]">
+            <Line
+              data={{
+                datasets: [
+                  {
+                    label: metricLabel(metric),
+                    data: series
+                      .map((r) => ({ x: r.time, y: displayValue(metric, metricValue(r, metric)) }))
+                      .filter((point): point is { x: number; y: number } => point.y !== null),
+                    borderColor: LINE_COLORS[index % LINE_COLORS.length],
+                    backgroundColor: LINE_COLORS[index % LINE_COLORS.length],
+                    pointRadius: series.length > 200 ? 0 : 2,
+                  },
+                ],
+              }}
+              options={{
+                maintainAspectRatio: false,
+                animation: false,
+                plugins: {
+                  tooltip: { callbacks: { title: (items) => format(items[0].parsed.x, 'PPpp') } },
+                },
+                scales: {
+                  x: {
+                    type: 'linear',
+                    min: view[0],
+                    max: view[1],
+                    ticks: { callback: (value) => format(Number(value), tickFormat(span)), maxTicksLimit: 8 },
+                  },
+                  y: { title: { display: true, text: metricLabel(metric) } },
+                },
+              }}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
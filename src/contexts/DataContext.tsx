@@ -18,6 +18,8 @@ export interface Upload {
     avgPressure: number;
     avgTemperature: number;
     typeDistribution: Record<string, number>;
+    /** Rows without a value, per field; absent on uploads made before it was recorded. */
+    missingValues?: Record<string, number>;
   } | null;
   created_at: string;
 }
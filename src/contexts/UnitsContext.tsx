@@ -0,0 +1,91 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BASE_UNITS,
+  DisplayUnits,
+  Quantity,
+  UnitSystem,
+  fromBase,
+  resolveDisplayUnits,
+  unitLabel,
+} from '@/lib/units';
+
+interface UnitsContextType {
+  unitSystem: UnitSystem;
+  customUnits: Partial<DisplayUnits>;
+  displayUnits: DisplayUnits;
+  setUnitPreference: (system: UnitSystem, custom?: Partial<DisplayUnits>) => Promise<{ error: Error | null }>;
+  /** Converts a stored (base unit) value to the user's display unit. */
+  convert: (quantity: Quantity, value: number | null | undefined) => number | null;
+  format: (quantity: Quantity, value: number | null | undefined, digits?: number) => string;
+  label: (quantity: Quantity) => string;
+  withUnit: (text: string, quantity: Quantity) => string;
+}
+
+const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
+
+export function UnitsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
+  const [customUnits, setCustomUnits] = useState<Partial<DisplayUnits>>({});
+
+  useEffect(() => {
+    if (!user) {
+      setUnitSystem('metric');
+      setCustomUnits({});
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('unit_system, custom_units')
+      .eq('user_id', user.id)
+      .single()
+      .then(({ data }) => {
+        if (!data) return;
+        setUnitSystem(data.unit_system as UnitSystem);
+        setCustomUnits((data.custom_units ?? {}) as Partial<DisplayUnits>);
+      });
+  }, [user]);
+
+  const displayUnits = resolveDisplayUnits(unitSystem, customUnits);
+
+  const setUnitPreference = async (system: UnitSystem, custom: Partial<DisplayUnits> = customUnits) => {
+    setUnitSystem(system);
+    setCustomUnits(custom);
+    if (!user) return { error: null };
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ unit_system: system, custom_units: custom })
+      .eq('user_id', user.id);
+    return { error: error as Error | null };
+  };
+
+  const convert = (quantity: Quantity, value: number | null | undefined) =>
+    value === null || value === undefined ? null : fromBase(quantity, displayUnits[quantity], value);
+
+  const format = (quantity: Quantity, value: number | null | undefined, digits = 2) =>
+    convert(quantity, value)?.toFixed(digits) ?? '-';
+
+  const label = (quantity: Quantity) => unitLabel(quantity, displayUnits[quantity] ?? BASE_UNITS[quantity]);
+
+  const withUnit = (text: string, quantity: Quantity) => `${text} (${label(quantity)})`;
+
+  return (
+    <UnitsContext.Provider
+      value={{ unitSystem, customUnits, displayUnits, setUnitPreference, convert, format, label, withUnit }}
+    >
+      {children}
+    </UnitsContext.Provider>
+  );
+}
+
+export function useUnits() {
+  const context = useContext(UnitsContext);
+  if (context === undefined) {
+    throw new Error('useUnits must be used within a UnitsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,118 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { ColumnAssignment, ParsedRow, sourceUnits } from '@/lib/columnMapping';
+import {
+  INSERT_BATCH_SIZE,
+  UploadCheckpoint,
+  clearCheckpoint,
+  saveCheckpoint,
+  withRetry,
+} from '@/lib/batchInsert';
+
+export interface UploadRequest {
+  file: File;
+  /** Number of rows to upload. */
+  rowCount: number;
+  /** Reads rows `start` up to `end`; they are fetched a batch at a time while staging. */
+  readRows: (start: number, end: number) => Promise<ParsedRow[]>;
+  mapping: ColumnAssignment[];
+  contentHash: string | null;
+  /** Earlier upload to delete in the same transaction. */
+  replaceUploadId?: string;
+  /** Existing upload to merge the rows into instead of creating one. */
+  appendToUploadId?: string;
+  /** Checkpoint of an interrupted upload of this file, to continue from. */
+  resumeFrom?: UploadCheckpoint | null;
+}
+
+export function useCommitUpload() {
+  const { user } = useAuth();
+
+  /**
+   * Stages the rows in batches, then creates the upload with commit_upload,
+   * or merges them into an existing one with append_upload. Reports the
+   * percentage of staged batches and resolves with the upload id.
+   */
+  const commitUpload = async (request: UploadRequest, onProgress: (percent: number) => void) => {
+    if (!user) throw new Error('Not authenticated');
+
+    const { file, rowCount } = request;
+    let checkpoint = request.resumeFrom ?? null;
+    if (checkpoint) {
+      // Staged batches are idempotent, so continue from the rows that actually arrived.
+      const { count } = await supabase
+        .from('upload_staging')
+        .select('id', { count: 'exact', head: true })
+        .eq('session_id', checkpoint.sessionId);
+      checkpoint = { ...checkpoint, committedBatches: Math.floor((count ?? 0) / checkpoint.batchSize) };
+    } else {
+      checkpoint = {
+        userId: user.id,
+        sessionId: crypto.randomUUID(),
+        fileName: file.name,
+        fileSize: file.size,
+        lastModified: file.lastModified,
+        totalRows: rowCount,
+        contentHash: request.contentHash,
+        batchSize: INSERT_BATCH_SIZE,
+        committedBatches: 0,
+      };
+    }
+    saveCheckpoint(checkpoint);
+
+    // Stage equipment data in batches; nothing is visible until commit_upload runs.
+    const { sessionId, batchSize } = checkpoint;
+    const batchCount = Math.ceil(rowCount / batchSize);
+    for (let index = checkpoint.committedBatches; index < batchCount; index++) {
+      const batch = await request.readRows(index * batchSize, (index + 1) * batchSize);
+      const stagedRows = batch.map((row, offset) => ({
+        session_id: sessionId,
+        user_id: user.id,
+        row_index: index * batchSize + offset,
+        equipment_name: row.equipment_name,
+        equipment_type: row.equipment_type,
+        flowrate: row.flowrate,
+        pressure: row.pressure,
+        temperature: row.temperature,
+        reading_time: row.reading_time,
+        extra: row.extra,
+      }));
+
+      await withRetry(async () => {
+        const { error: stageError } = await supabase
+          .from('upload_staging')
+          .upsert(stagedRows, { onConflict: 'session_id,row_index', ignoreDuplicates: true });
+        if (stageError) throw stageError;
+      });
+
+      checkpoint = { ...checkpoint, committedBatches: index + 1 };
+      saveCheckpoint(checkpoint);
+      onProgress(((index + 1) / batchCount) * 100);
+    }
+
+    // Validates and summarises in one transaction; commit_upload also applies retention.
+    const { data: uploadId, error: commitError } = request.appendToUploadId
+      ? await supabase.rpc('append_upload', {
+          p_session_id: sessionId,
+          p_upload_id: request.appendToUploadId,
+          p_filename: file.name,
+          p_expected_rows: rowCount,
+          p_content_hash: request.contentHash ?? undefined,
+        })
+      : await supabase.rpc('commit_upload', {
+          p_session_id: sessionId,
+          p_filename: file.name,
+          p_units: sourceUnits(request.mapping),
+          p_expected_rows: rowCount,
+          p_content_hash: request.contentHash ?? undefined,
+          p_replace_upload_id: request.replaceUploadId,
+        });
+
+    if (commitError) throw commitError;
+
+    clearCheckpoint();
+    return uploadId;
+  };
+
+  return { commitUpload };
+}
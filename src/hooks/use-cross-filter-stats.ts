@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { CrossFilter, CrossFilterStats, regionRangesJson } from '@/lib/crossFilter';
+import { metricColumn } from '@/lib/dataTable';
+import type { Metric } from '@/lib/metrics';
+
+/**
+ * Count, averages of `metrics` and type distribution of the upload's rows
+ * passing the cross-filter, over all of them. Null while `uploadId` is null;
+ * the previous result is kept while a new filter is being counted.
+ */
+export function useCrossFilterStats(uploadId: string | null, crossFilter: CrossFilter, metrics: Metric[]) {
+  const [stats, setStats] = useState<CrossFilterStats | null>(null);
+
+  useEffect(() => {
+    if (!uploadId) {
+      setStats(null);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .rpc('cross_filter_stats', {
+        p_upload_id: uploadId,
+        p_types: crossFilter.types,
+        p_ranges: regionRangesJson(crossFilter.region),
+        p_columns: metrics.map(metricColumn),
+      })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching cross-filter stats:', error);
+          return;
+        }
+        setStats(data as unknown as CrossFilterStats);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadId, crossFilter, metrics]);
+
+  return stats;
+}
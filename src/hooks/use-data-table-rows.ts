@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { DATA_TABLE_PAGE_SIZE, DataTableQuery, searchFilter } from '@/lib/dataTable';
+
+export interface DataTableRow {
+  id: string;
+  equipment_name: string;
+  equipment_type: string;
+  flowrate: number | null;
+  pressure: number | null;
+  temperature: number | null;
+  reading_time: string | null;
+  extra: Json;
+}
+
+/**
+ * Rows of an upload matching the table's query, fetched a page at a time as
+ * they scroll into view. Pages of an earlier query that arrive late are dropped.
+ */
+export function useDataTableRows(uploadId: string | null, query: DataTableQuery) {
+  const [pages, setPages] = useState<Record<number, DataTableRow[]>>({});
+  // Matching rows; null until the first page of the current query arrives.
+  const [total, setTotal] = useState<number | null>(null);
+  const requested = useRef(new Set<number>());
+  const generation = useRef(0);
+
+  const fetchPage = useCallback(
+    async (page: number) => {
+      if (!uploadId || requested.current.has(page)) return;
+      requested.current.add(page);
+      const current = generation.current;
+
+      let request = supabase
+        .from('equipment_data')
+        .select(
+          'id, equipment_name, equipment_type, flowrate, pressure, temperature, reading_time, extra',
+          // Counting is the slow part on large uploads, so only the first page asks for it.
+          page === 0 ? { count: 'exact' } : undefined
+        )
+        .eq('upload_id', uploadId);
+      if (query.search.trim()) request = request.or(searchFilter(query.search));
+      if (query.types.length > 0) request = request.in('equipment_type', query.types);
+      for (const [column, limit] of Object.entries(query.ranges)) {
+        if (limit?.min != null) request = request.gte(column, limit.min);
+        if (limit?.max != null) request = request.lte(column, limit.max);
+      }
+      if (query.sort) {
+        request = request.order(query.sort.column, { ascending: query.sort.direction === 'asc', nullsFirst: false });
+      }
+      const from = page * DATA_TABLE_PAGE_SIZE;
+      const { data, count, error } = await request.order('row_index').range(from, from + DATA_TABLE_PAGE_SIZE - 1);
+
+      if (current !== generation.current) return;
+      if (error) {
+        console.error('Error fetching rows:', error);
+        requested.current.delete(page);
+        if (page === 0) setTotal(0);
+        return;
+      }
+      setPages((loaded) => ({ ...loaded, [page]: (data || []) as DataTableRow[] }));
+      if (page === 0) setTotal(count ?? 0);
+    },
+    [uploadId, query]
+  );
+
+  useEffect(() => {
+    generation.current++;
+    requested.current = new Set();
+    setPages({});
+    setTotal(null);
+    fetchPage(0);
+  }, [fetchPage]);
+
+  /** Fetches the pages covering rows `start` to `end` (exclusive) that are not loaded yet. */
+  const ensureRows = useCallback(
+    (start: number, end: number) => {
+      if (end <= start) return;
+      const last = Math.floor((end - 1) / DATA_TABLE_PAGE_SIZE);
+      for (let page = Math.floor(start / DATA_TABLE_PAGE_SIZE); page <= last; page++) fetchPage(page);
+    },
+    [fetchPage]
+  );
+
+  const rowAt = (index: number): DataTableRow | undefined =>
+    pages[Math.floor(index / DATA_TABLE_PAGE_SIZE)]?.[index % DATA_TABLE_PAGE_SIZE];
+
+  return { total, loading: total === null, rowAt, ensureRows };
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Equipment,
+  EquipmentDetails,
+  EquipmentLimits,
+  EquipmentReading,
+  EquipmentStats,
+  equipmentDetailsToRow,
+  equipmentFromRow,
+  limitsToJson,
+} from '@/lib/equipment';
+import { fetchAllRows } from '@/lib/utils';
+
+/** The user's equipment registry with reading counts per asset. */
+export function useEquipment() {
+  const { user } = useAuth();
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [stats, setStats] = useState<Record<string, EquipmentStats>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchEquipment = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data, error }, { data: statsData, error: statsError }] = await Promise.all([
+      supabase.from('equipment').select('*').eq('user_id', user.id).order('tag'),
+      supabase.rpc('equipment_stats'),
+    ]);
+
+    if (error || statsError) {
+      console.error('Error fetching equipment:', error ?? statsError);
+    }
+    setEquipment((data || []).map(equipmentFromRow));
+    setStats(
+      Object.fromEntries(
+        (statsData || []).map((row) => [
+          row.equipment_id,
+          { readingCount: row.reading_count, uploadCount: row.upload_count, lastSeenAt: row.last_seen_at },
+        ])
+      )
+    );
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchEquipment();
+  }, [fetchEquipment]);
+
+  const saveDetails = async (id: string, details: EquipmentDetails) => {
+    const { error } = await supabase.from('equipment').update(equipmentDetailsToRow(details)).eq('id', id);
+    if (error) throw error;
+    await fetchEquipment();
+  };
+
+  const saveLimits = async (id: string, limits: EquipmentLimits) => {
+    const { error } = await supabase.from('equipment').update({ limits: limitsToJson(limits) }).eq('id', id);
+    if (error) throw error;
+    await fetchEquipment();
+  };
+
+  /** Readings stay in their uploads, unlinked; the tag is registered again by its next upload. */
+  const deleteEquipment = async (id: string) => {
+    const { error } = await supabase.from('equipment').delete().eq('id', id);
+    if (error) throw error;
+    await fetchEquipment();
+  };
+
+  return { equipment, stats, loading, saveDetails, saveLimits, deleteEquipment };
+}
+
+/** Every reading linked to the asset, newest upload first. */
+export function useEquipmentReadings(equipmentId: string | null) {
+  const [readings, setReadings] = useState<EquipmentReading[]>([]);
+  // The asset the current readings belong to; loading until it catches up with equipmentId.
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!equipmentId) {
+      setReadings([]);
+      setLoadedId(null);
+      return;
+    }
+
+    let cancelled = false;
+    // An asset can have more readings than one request returns; upload_id keeps the order stable across pages.
+    fetchAllRows((from, to) =>
+      supabase
+        .from('equipment_data')
+        .select('id, upload_id, equipment_type, flowrate, pressure, temperature, extra, reading_time, created_at, uploads(filename, created_at, archived_at)')
+        .eq('equipment_id', equipmentId)
+        .order('created_at', { ascending: false })
+        .order('upload_id')
+        .order('row_index')
+        .range(from, to)
+    )
+      .then((rows) => {
+        if (!cancelled) setReadings(rows);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error fetching equipment readings:', error);
+        setReadings([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedId(equipmentId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [equipmentId]);
+
+  return { readings, loading: equipmentId !== null && loadedId !== equipmentId };
+}
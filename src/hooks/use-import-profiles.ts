@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { ColumnAssignment } from '@/lib/columnMapping';
+import { ImportProfile, profileFieldsFromMapping, profileFromRow } from '@/lib/importProfiles';
+import { ParseOptions } from '@/lib/parsing';
+
+export function useImportProfiles() {
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching import profiles:', error);
+      return;
+    }
+    setProfiles((data || []).map(profileFromRow));
+  }, [user]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  /** Creates the profile, or overwrites an existing one with the same name. */
+  const saveProfile = async (name: string, headers: string[], mapping: ColumnAssignment[], options: ParseOptions) => {
+    if (!user) return null;
+
+    const { columnMapping, columnUnits, headerFingerprint } = profileFieldsFromMapping(headers, mapping);
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .upsert(
+        {
+          user_id: user.id,
+          name,
+          column_mapping: columnMapping,
+          column_units: columnUnits,
+          delimiter: options.delimiter,
+          decimal_separator: options.decimalSeparator,
+          thousands_separator: options.thousandsSeparator,
+          header_row_offset: options.headerRowOffset,
+          null_tokens: options.nullTokens,
+          header_fingerprint: headerFingerprint,
+        },
+        { onConflict: 'user_id,name' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    await fetchProfiles();
+    return profileFromRow(data);
+  };
+
+  const deleteProfile = async (id: string) => {
+    const { error } = await supabase.from('import_profiles').delete().eq('id', id);
+    if (error) throw error;
+    await fetchProfiles();
+  };
+
+  return { profiles, saveProfile, deleteProfile };
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ColumnAssignment, ParsedRow, RawTable } from '@/lib/columnMapping';
+import type { ParseOptions } from '@/lib/parsing';
+import type { ProcessParameter } from '@/lib/processParameters';
+import type { RowEdit, ValidatedRow, ValidationSummary } from '@/lib/validation';
+import type { ImportWorkerCommand, ImportWorkerResponse } from '@/workers/import.worker';
+
+export interface ImportProgress {
+  phase: 'parsing' | 'validating';
+  rows: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface ParsedCsv {
+  /** Headers and the first rows only; the full table stays in the worker. */
+  table: RawTable;
+  rowCount: number;
+}
+
+export interface ValidatedTable {
+  /** The first rows of each status; all of them stay in the worker. */
+  rows: ValidatedRow[];
+  summary: ValidationSummary;
+  contentHash: string;
+}
+
+function validatedTable(response: ImportWorkerResponse | null): ValidatedTable | null {
+  if (response?.type !== 'validated') return null;
+  return { rows: response.rows, summary: response.summary, contentHash: response.contentHash };
+}
+
+type Pending = {
+  id: number;
+  resolve: (response: ImportWorkerResponse | null) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Runs CSV parsing and row validation in a Web Worker, which keeps the
+ * validated rows for editing and staging. Every call resolves with null when
+ * it is cancelled or superseded by a later one.
+ */
+export function useImportWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<Pending | null>(null);
+  const nextIdRef = useRef(0);
+  const totalBytesRef = useRef(0);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../workers/import.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+        const response = event.data;
+        // Answers to requests that were superseded or cancelled are dropped.
+        if (response.id !== pendingRef.current?.id) return;
+        if (response.type === 'progress') {
+          setProgress({ ...response, totalBytes: totalBytesRef.current });
+          return;
+        }
+        const pending = pendingRef.current;
+        pendingRef.current = null;
+        setProgress(null);
+        if (response.type === 'error') pending?.reject(new Error(response.message));
+        else pending?.resolve(response);
+      };
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, []);
+
+  const request = useCallback(
+    (message: ImportWorkerCommand, totalBytes: number) =>
+      new Promise<ImportWorkerResponse | null>((resolve, reject) => {
+        const id = ++nextIdRef.current;
+        pendingRef.current?.resolve(null);
+        pendingRef.current = { id, resolve, reject };
+        totalBytesRef.current = totalBytes;
+        if (message.type === 'parseCsv' || message.type === 'validate') {
+          setProgress({ phase: message.type === 'parseCsv' ? 'parsing' : 'validating', rows: 0, bytesRead: 0, totalBytes });
+        }
+        getWorker().postMessage({ ...message, id });
+      }),
+    [getWorker]
+  );
+
+  const parseCsv = useCallback(
+    async (file: File, options: ParseOptions): Promise<ParsedCsv | null> => {
+      const response = await request({ type: 'parseCsv', file, options }, file.size);
+      if (response?.type !== 'parsed') return null;
+      return { table: { headers: response.headers, rows: response.sampleRows }, rowCount: response.rowCount };
+    },
+    [request]
+  );
+
+  /**
+   * Validates the CSV held by the worker, or `table` when the rows were read
+   * on the page, and applies `edits` made to an earlier reading of the file.
+   * The worker keeps the validated rows for the calls below. Also returns the
+   * content hash of the accepted rows. `parameters` give the expected ranges
+   * of mapped process parameters.
+   */
+  const validate = useCallback(
+    async (
+      mapping: ColumnAssignment[],
+      options: ParseOptions,
+      parameters: ProcessParameter[],
+      table?: RawTable,
+      edits?: RowEdit[]
+    ): Promise<ValidatedTable | null> => {
+      const response = await request({ type: 'validate', mapping, options, parameters, table, edits }, 0);
+      return validatedTable(response);
+    },
+    [request]
+  );
+
+  /** Applies a correction from the preview to the validated rows. */
+  const editRows = useCallback(
+    async (edit: RowEdit) => validatedTable(await request({ type: 'edit', edit }, 0)),
+    [request]
+  );
+
+  /** Every validated row with errors, for the rejected rows download. */
+  const rejectedRows = useCallback(async (): Promise<ValidatedRow[] | null> => {
+    const response = await request({ type: 'rejectedRows' }, 0);
+    return response?.type === 'rows' ? response.rows : null;
+  }, [request]);
+
+  /** Accepted rows `start` up to `end`, for staging a batch. */
+  const readAcceptedRows = useCallback(
+    async (start: number, end: number): Promise<ParsedRow[] | null> => {
+      const response = await request({ type: 'acceptedRows', start, end }, 0);
+      return response?.type === 'accepted' ? response.rows : null;
+    },
+    [request]
+  );
+
+  /** Stops the worker; the parsed file is discarded with it. */
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current?.resolve(null);
+    pendingRef.current = null;
+    setProgress(null);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { progress, parseCsv, validate, editRows, rejectedRows, readAcceptedRows, cancel };
+}
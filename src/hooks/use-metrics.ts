@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useUnits } from '@/contexts/UnitsContext';
+import { useProcessParameters } from '@/hooks/use-process-parameters';
+import { Metric, metricsFor } from '@/lib/metrics';
+import { parameterLabel } from '@/lib/processParameters';
+
+/** Shows the value of any metric in the user's display units. */
+export function useMetricDisplay() {
+  const { t } = useTranslation();
+  const { convert, format, withUnit } = useUnits();
+
+  /** Name with the display unit, for headers, axes and legends. */
+  const metricLabel = (metric: Metric) =>
+    'quantity' in metric ? withUnit(t(`table.${metric.quantity}`), metric.quantity) : parameterLabel(metric.parameter);
+
+  /** Stored value converted to the display unit. */
+  const displayValue = (metric: Metric, value: number | null | undefined) => {
+    if ('quantity' in metric) return convert(metric.quantity, value);
+    return value ?? null;
+  };
+
+  const formatValue = (metric: Metric, value: number | null | undefined, digits = 2) =>
+    'quantity' in metric ? format(metric.quantity, value, digits) : value?.toFixed(digits) ?? '-';
+
+  return { metricLabel, displayValue, formatValue };
+}
+
+/** The built-in quantities and the user's process parameters, with the display helpers. */
+export function useMetrics() {
+  const { parameters } = useProcessParameters();
+  const display = useMetricDisplay();
+  const metrics = useMemo(() => metricsFor(parameters), [parameters]);
+  return { metrics, parameters, ...display };
+}
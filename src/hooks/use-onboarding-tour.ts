@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { TOUR_STEPS, TourState, loadTourState, saveTourState } from '@/lib/onboarding';
+
+/**
+ * The first-run tour across the navigation. Every page mounts its own
+ * Layout, so the current step lives in localStorage rather than in state
+ * that would be lost on navigation.
+ */
+export function useOnboardingTour() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [state, setState] = useState<TourState>('done');
+
+  useEffect(() => {
+    setState(user ? loadTourState(user.id) : 'done');
+  }, [user]);
+
+  const update = (next: TourState) => {
+    setState(next);
+    if (user) saveTourState(user.id, next);
+    if (next !== 'done') navigate(TOUR_STEPS[next].path);
+  };
+
+  const step = state === 'done' ? null : state;
+
+  return {
+    step,
+    start: () => update(0),
+    next: () => update(step !== null && step + 1 < TOUR_STEPS.length ? step + 1 : 'done'),
+    back: () => update(step !== null && step > 0 ? step - 1 : 0),
+    finish: () => update('done'),
+  };
+}
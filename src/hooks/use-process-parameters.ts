@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { ProcessParameter, ProcessParameterDraft, parameterFromRow, parameterKey } from '@/lib/processParameters';
+
+export function useProcessParameters() {
+  const { user } = useAuth();
+  const [parameters, setParameters] = useState<ProcessParameter[]>([]);
+
+  const fetchParameters = useCallback(async () => {
+    if (!user) {
+      setParameters([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('process_parameters')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching process parameters:', error);
+      return;
+    }
+    setParameters((data || []).map(parameterFromRow));
+  }, [user]);
+
+  useEffect(() => {
+    fetchParameters();
+  }, [fetchParameters]);
+
+  /** Creates the parameter, or updates the unit and range of one with the same name. */
+  const saveParameter = async (draft: ProcessParameterDraft) => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('process_parameters')
+      .upsert(
+        {
+          user_id: user.id,
+          key: parameterKey(draft.name),
+          name: draft.name,
+          unit: draft.unit,
+          min_value: draft.min,
+          max_value: draft.max,
+        },
+        { onConflict: 'user_id,key' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    await fetchParameters();
+    return parameterFromRow(data);
+  };
+
+  /** Values already imported stay in equipment_data.extra but are no longer shown. */
+  const deleteParameter = async (id: string) => {
+    const { error } = await supabase.from('process_parameters').delete().eq('id', id);
+    if (error) throw error;
+    await fetchParameters();
+  };
+
+  return { parameters, saveParameter, deleteParameter };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_RETENTION, RetentionCandidate, RetentionPolicy, retentionFromProfile } from '@/lib/retention';
+
+export function useRetentionPolicy() {
+  const { user } = useAuth();
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION);
+
+  useEffect(() => {
+    if (!user) {
+      setPolicy(DEFAULT_RETENTION);
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('retention_mode, retention_value, retention_archive')
+      .eq('user_id', user.id)
+      .single()
+      .then(({ data }) => {
+        if (data) setPolicy(retentionFromProfile(data));
+      });
+  }, [user]);
+
+  const savePolicy = async (next: RetentionPolicy) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ retention_mode: next.mode, retention_value: next.value, retention_archive: next.archive })
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+    setPolicy(next);
+  };
+
+  /**
+   * Uploads that would be removed or archived once `incoming` new uploads are
+   * committed, under `preview` or, without it, the saved policy.
+   */
+  const pendingRemovals = useCallback(
+    async (incoming = 1, preview?: RetentionPolicy): Promise<RetentionCandidate[]> => {
+      if (!user) return [];
+
+      const { data, error } = await supabase.rpc('retention_candidates', {
+        p_incoming: incoming,
+        ...(preview && { p_mode: preview.mode, p_value: preview.value }),
+      });
+
+      if (error) {
+        console.error('Error checking retention policy:', error);
+        return [];
+      }
+      return data ?? [];
+    },
+    [user]
+  );
+
+  return { policy, savePolicy, pendingRemovals };
+}
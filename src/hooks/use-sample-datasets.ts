@@ -0,0 +1,32 @@
+import { useState } from 'react';
+import { useCommitUpload } from '@/hooks/use-commit-upload';
+import { hashRows } from '@/lib/contentHash';
+import { SampleDataset, SampleDatasetId, sampleRows } from '@/lib/sampleDatasets';
+
+/** Loads a bundled sample dataset into the user's account as a regular upload. */
+export function useSampleDatasets() {
+  const { commitUpload } = useCommitUpload();
+  const [loadingId, setLoadingId] = useState<SampleDatasetId | null>(null);
+
+  /** Resolves with the id of the new upload. */
+  const loadSample = async (dataset: SampleDataset) => {
+    setLoadingId(dataset.id);
+    try {
+      const rows = sampleRows(dataset);
+      return await commitUpload(
+        {
+          file: new File([], dataset.filename, { type: 'text/csv' }),
+          rowCount: rows.length,
+          readRows: async (start, end) => rows.slice(start, end),
+          mapping: [],
+          contentHash: await hashRows(rows),
+        },
+        () => {}
+      );
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  return { loadSample, loadingId };
+}
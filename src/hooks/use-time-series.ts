@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { CrossFilter, regionRangesJson, withRegionRanges } from '@/lib/crossFilter';
+import { fetchAllRows } from '@/lib/utils';
+
+export interface TimedReading {
+  equipment_name: string;
+  reading_time: string;
+  flowrate: number | null;
+  pressure: number | null;
+  temperature: number | null;
+  extra: Json;
+}
+
+/** Equipment of the upload with timed readings passing the cross-filter, sorted by name. */
+export function useTimedEquipment(uploadId: string, crossFilter: CrossFilter) {
+  const [names, setNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    supabase
+      .rpc('timed_equipment', {
+        p_upload_id: uploadId,
+        p_types: crossFilter.types,
+        p_ranges: regionRangesJson(crossFilter.region),
+      })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error fetching timed equipment:', error);
+        setNames([...(data ?? [])].sort());
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadId, crossFilter]);
+
+  return names;
+}
+
+/** Every reading of one piece of equipment passing the cross-filter, oldest first. */
+export function useReadingSeries(uploadId: string, crossFilter: CrossFilter, equipment: string | undefined) {
+  const [readings, setReadings] = useState<TimedReading[]>([]);
+
+  useEffect(() => {
+    setReadings([]);
+    if (!equipment) return;
+
+    let cancelled = false;
+    const ranges = withRegionRanges({}, crossFilter.region);
+    const fetchPage = (from: number, to: number) => {
+      let request = supabase
+        .from('equipment_data')
+        .select('equipment_name, reading_time, flowrate, pressure, temperature, extra')
+        .eq('upload_id', uploadId)
+        .eq('equipment_name', equipment)
+        .not('reading_time', 'is', null);
+      if (crossFilter.types.length > 0) request = request.in('equipment_type', crossFilter.types);
+      for (const [column, limit] of Object.entries(ranges)) {
+        if (limit?.min != null) request = request.gte(column, limit.min);
+        if (limit?.max != null) request = request.lte(column, limit.max);
+      }
+      return request.order('reading_time').order('row_index').range(from, to);
+    };
+
+    fetchAllRows(fetchPage)
+      .then((rows) => {
+        if (!cancelled) setReadings(rows as TimedReading[]);
+      })
+      .catch((error) => {
+        if (!cancelled) console.error('Error fetching readings:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadId, crossFilter, equipment]);
+
+  return readings;
+}
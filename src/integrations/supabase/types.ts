@@ -14,41 +14,99 @@ export type Database = {
   }
   public: {
     Tables: {
+      equipment: {
+        Row: {
+          area: string | null
+          commissioned_on: string | null
+          created_at: string
+          equipment_type: string | null
+          id: string
+          limits: Json
+          manufacturer: string | null
+          tag: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          area?: string | null
+          commissioned_on?: string | null
+          created_at?: string
+          equipment_type?: string | null
+          id?: string
+          limits?: Json
+          manufacturer?: string | null
+          tag: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          area?: string | null
+          commissioned_on?: string | null
+          created_at?: string
+          equipment_type?: string | null
+          id?: string
+          limits?: Json
+          manufacturer?: string | null
+          tag?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       equipment_data: {
         Row: {
           created_at: string
+          equipment_id: string | null
           equipment_name: string
           equipment_type: string
+          extra: Json
           flowrate: number | null
           id: string
           pressure: number | null
+          reading_time: string | null
+          row_index: number | null
           temperature: number | null
           upload_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          equipment_id: string | null
           equipment_name: string
           equipment_type: string
+          extra?: Json
           flowrate?: number | null
           id?: string
           pressure?: number | null
+          reading_time?: string | null
+          row_index?: number | null
           temperature?: number | null
           upload_id: string
           user_id: string
         }
         Update: {
           created_at?: string
+          equipment_id?: string | null
           equipment_name?: string
           equipment_type?: string
+          extra?: Json
           flowrate?: number | null
           id?: string
           pressure?: number | null
+          reading_time?: string | null
+          row_index?: number | null
           temperature?: number | null
           upload_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "equipment_data_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "equipment_data_upload_id_fkey"
             columns: ["upload_id"]
@@ -58,56 +116,244 @@ export type Database = {
           },
         ]
       }
+      import_profiles: {
+        Row: {
+          column_mapping: Json
+          column_units: Json
+          created_at: string
+          decimal_separator: string
+          delimiter: string
+          header_fingerprint: string | null
+          header_row_offset: number
+          id: string
+          name: string
+          null_tokens: string[]
+          thousands_separator: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          column_mapping?: Json
+          column_units?: Json
+          created_at?: string
+          decimal_separator?: string
+          delimiter?: string
+          header_fingerprint?: string | null
+          header_row_offset?: number
+          id?: string
+          name: string
+          null_tokens?: string[]
+          thousands_separator?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          column_mapping?: Json
+          column_units?: Json
+          created_at?: string
+          decimal_separator?: string
+          delimiter?: string
+          header_fingerprint?: string | null
+          header_row_offset?: number
+          id?: string
+          name?: string
+          null_tokens?: string[]
+          thousands_separator?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      process_parameters: {
+        Row: {
+          created_at: string
+          id: string
+          key: string
+          max_value: number | null
+          min_value: number | null
+          name: string
+          unit: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key: string
+          max_value?: number | null
+          min_value?: number | null
+          name: string
+          unit?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key?: string
+          max_value?: number | null
+          min_value?: number | null
+          name?: string
+          unit?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
+          custom_units: Json
           full_name: string | null
           id: string
           preferred_language: string | null
+          retention_archive: boolean
+          retention_mode: string
+          retention_value: number
+          unit_system: string
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          custom_units?: Json
           full_name?: string | null
           id?: string
           preferred_language?: string | null
+          retention_archive?: boolean
+          retention_mode?: string
+          retention_value?: number
+          unit_system?: string
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
+          custom_units?: Json
           full_name?: string | null
           id?: string
           preferred_language?: string | null
+          retention_archive?: boolean
+          retention_mode?: string
+          retention_value?: number
+          unit_system?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      upload_appends: {
+        Row: {
+          content_hash: string | null
+          created_at: string
+          filename: string
+          id: string
+          row_count: number
+          upload_id: string
+          user_id: string
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string
+          filename: string
+          id?: string
+          row_count: number
+          upload_id: string
+          user_id: string
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string
+          filename?: string
+          id?: string
+          row_count?: number
+          upload_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "upload_appends_upload_id_fkey"
+            columns: ["upload_id"]
+            isOneToOne: false
+            referencedRelation: "uploads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      upload_staging: {
+        Row: {
+          created_at: string
+          equipment_name: string
+          equipment_type: string
+          extra: Json
+          flowrate: number | null
+          id: string
+          pressure: number | null
+          reading_time: string | null
+          row_index: number
+          session_id: string
+          temperature: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          equipment_name: string
+          equipment_type: string
+          extra?: Json
+          flowrate?: number | null
+          id?: string
+          pressure?: number | null
+          reading_time?: string | null
+          row_index: number
+          session_id: string
+          temperature?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          equipment_name?: string
+          equipment_type?: string
+          extra?: Json
+          flowrate?: number | null
+          id?: string
+          pressure?: number | null
+          reading_time?: string | null
+          row_index?: number
+          session_id?: string
+          temperature?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       uploads: {
         Row: {
+          archived_at: string | null
+          content_hash: string | null
           created_at: string
           filename: string
           id: string
           record_count: number
           summary: Json | null
+          units: Json
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
+          content_hash?: string | null
           created_at?: string
           filename: string
           id?: string
           record_count?: number
           summary?: Json | null
+          units?: Json
           user_id: string
         }
         Update: {
+          archived_at?: string | null
+          content_hash?: string | null
           created_at?: string
           filename?: string
           id?: string
           record_count?: number
           summary?: Json | null
+          units?: Json
           user_id?: string
         }
         Relationships: []
@@ -117,7 +363,61 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      append_upload: {
+        Args: {
+          p_content_hash?: string
+          p_expected_rows: number
+          p_filename: string
+          p_session_id: string
+          p_upload_id: string
+        }
+        Returns: string
+      }
+      apply_retention: {
+        Args: { p_incoming?: number }
+        Returns: number
+      }
+      commit_upload: {
+        Args: {
+          p_content_hash?: string
+          p_expected_rows: number
+          p_filename: string
+          p_replace_upload_id?: string
+          p_session_id: string
+          p_units: Json
+        }
+        Returns: string
+      }
+      cross_filter_stats: {
+        Args: {
+          p_columns?: string[]
+          p_ranges?: Json
+          p_types?: string[]
+          p_upload_id: string
+        }
+        Returns: Json
+      }
+      equipment_stats: {
+        Args: never
+        Returns: {
+          equipment_id: string
+          last_seen_at: string
+          reading_count: number
+          upload_count: number
+        }[]
+      }
+      retention_candidates: {
+        Args: { p_incoming?: number; p_mode?: string; p_value?: number }
+        Returns: {
+          created_at: string
+          filename: string
+          id: string
+        }[]
+      }
+      timed_equipment: {
+        Args: { p_ranges?: Json; p_types?: string[]; p_upload_id: string }
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,90 @@
+export const INSERT_BATCH_SIZE = 500;
+
+const CHECKPOINT_KEY = 'chempristine.uploadCheckpoint';
+
+export interface RetryOptions {
+  retries: number;
+  /** Delay before the first retry; doubled after every failed attempt. */
+  baseDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 4, baseDelayMs: 500 };
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Runs `attempt` until it succeeds, waiting 0.5s, 1s, 2s, ... (with jitter) between tries. */
+export async function withRetry<T>(attempt: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY): Promise<T> {
+  for (let tries = 0; ; tries++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (tries >= options.retries) throw err;
+      await sleep(options.baseDelayMs * 2 ** tries * (0.75 + Math.random() * 0.5));
+    }
+  }
+}
+
+/**
+ * Progress of an upload that was interrupted part way. Saved after every
+ * staged batch so the upload can continue after a reload, once the same
+ * file is selected again.
+ */
+export interface UploadCheckpoint {
+  userId: string;
+  /** Groups the rows in upload_staging until commit_upload moves them. */
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+  totalRows: number;
+  /** Hash of the rows being staged; edits in the preview change it. */
+  contentHash: string | null;
+  batchSize: number;
+  committedBatches: number;
+}
+
+export function loadCheckpoint(userId: string): UploadCheckpoint | null {
+  try {
+    const checkpoint = JSON.parse(localStorage.getItem(CHECKPOINT_KEY) ?? 'null') as UploadCheckpoint | null;
+    return checkpoint?.userId === userId && checkpoint.sessionId ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCheckpoint(checkpoint: UploadCheckpoint) {
+  localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+}
+
+export function clearCheckpoint() {
+  localStorage.removeItem(CHECKPOINT_KEY);
+}
+
+/**
+ * True when the checkpoint was written for this file and the same rows. Rows
+ * edited since then hash differently, so their stale staged batches are not reused.
+ */
+export function matchesCheckpoint(
+  checkpoint: UploadCheckpoint | null,
+  file: File,
+  totalRows: number,
+  contentHash: string | null
+) {
+  return (
+    !!checkpoint &&
+    checkpoint.fileName === file.name &&
+    checkpoint.fileSize === file.size &&
+    checkpoint.lastModified === file.lastModified &&
+    checkpoint.totalRows === totalRows &&
+    contentHash !== null &&
+    checkpoint.contentHash === contentHash
+  );
+}
@@ -0,0 +1,237 @@
+import { DEFAULT_PARSE_OPTIONS, NumberParseOptions, isNullToken, parseNumber, parseTimestamp } from '@/lib/parsing';
+import { detectUnit, getUnit, toBase } from '@/lib/units';
+import type { ProcessParameter } from '@/lib/processParameters';
+
+export type TargetField = 'equipment_name' | 'equipment_type' | 'flowrate' | 'pressure' | 'temperature' | 'reading_time';
+
+/** A column holding a user-defined process parameter, by parameter key. */
+export type ParameterTarget = `param:${string}`;
+
+export type MappingTarget = TargetField | ParameterTarget | 'ignore';
+
+export type MappingConfidence = 'high' | 'medium' | 'low' | 'manual' | 'none';
+
+export interface ColumnAssignment {
+  target: MappingTarget;
+  confidence: MappingConfidence;
+  /** Source unit id for numeric fields; values are converted to the base unit on import. */
+  unit?: string;
+}
+
+export interface RawTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ParsedRow {
+  equipment_name: string;
+  equipment_type: string;
+  flowrate: number | null;
+  pressure: number | null;
+  temperature: number | null;
+  /** When the reading was taken, as an ISO string; null for files without a timestamp column. */
+  reading_time: string | null;
+  /** Values of the mapped process parameters, by parameter key. */
+  extra: Record<string, number>;
+}
+
+export const TARGET_FIELDS: TargetField[] = [
+  'equipment_name',
+  'equipment_type',
+  'flowrate',
+  'pressure',
+  'temperature',
+  'reading_time',
+];
+
+export type NumericField = 'flowrate' | 'pressure' | 'temperature';
+
+export const NUMERIC_FIELDS: NumericField[] = ['flowrate', 'pressure', 'temperature'];
+
+/** i18n keys for field names, shared by the mapping and preview tables. */
+export const FIELD_LABEL_KEYS: Record<TargetField, string> = {
+  equipment_name: 'table.equipmentName',
+  equipment_type: 'table.type',
+  flowrate: 'table.flowrate',
+  pressure: 'table.pressure',
+  temperature: 'table.temperature',
+  reading_time: 'table.readingTime',
+};
+
+export const REQUIRED_FIELDS: TargetField[] = ['equipment_name', 'equipment_type'];
+
+// Patterns are listed from most to least specific; earlier patterns win ties.
+const FIELD_PATTERNS: Record<TargetField, string[]> = {
+  equipment_name: ['equipment name', 'name', 'tag', 'equipment'],
+  equipment_type: ['equipment type', 'type', 'category'],
+  flowrate: ['flowrate', 'flow rate', 'flow'],
+  pressure: ['pressure', 'press'],
+  temperature: ['temperature', 'temp'],
+  reading_time: ['reading time', 'timestamp', 'date time', 'datetime', 'time', 'date'],
+};
+
+// Too generic to match as part of a longer header: "Residence Time (min)" is a
+// duration, not a reading time.
+const WHOLE_HEADER_PATTERNS = new Set(['time', 'date']);
+
+export function parameterTarget(key: string): ParameterTarget {
+  return `param:${key}`;
+}
+
+/** The parameter key of a parameter target, otherwise null. */
+export function parameterKeyOf(target: MappingTarget): string | null {
+  return target.startsWith('param:') ? target.slice('param:'.length) : null;
+}
+
+const SCORE_CONFIDENCE: Record<number, MappingConfidence> = {
+  3: 'high',
+  2: 'medium',
+  1: 'low',
+};
+
+export function normalizeHeader(header: string) {
+  return header
+    .toLowerCase()
+    .replace(/[([].*?[)\]]/g, ' ')
+    .replace(/[_\-./]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// 3 = exact match, 2 = whole-word match, 1 = substring match, 0 = no match.
+function scoreHeader(header: string, pattern: string) {
+  if (header === pattern) return 3;
+  if (WHOLE_HEADER_PATTERNS.has(pattern)) return 0;
+  if (` ${header} `.includes(` ${pattern} `)) return 2;
+  if (header.includes(pattern)) return 1;
+  return 0;
+}
+
+/**
+ * Suggests a target field for every header. Each field is assigned to at most
+ * one column, best-scoring pairs first, so a header like "Pump Type Name" can
+ * no longer be claimed by both name and type.
+ */
+export function detectColumnMapping(
+  headers: string[],
+  parameters: Pick<ProcessParameter, 'key' | 'name'>[] = []
+): ColumnAssignment[] {
+  const normalized = headers.map(normalizeHeader);
+  const candidates: { field: TargetField | ParameterTarget; column: number; score: number; priority: number }[] = [];
+  const patterns: [TargetField | ParameterTarget, string[]][] = [
+    ...TARGET_FIELDS.map((field): [TargetField, string[]] => [field, FIELD_PATTERNS[field]]),
+    ...parameters.map((parameter): [ParameterTarget, string[]] => [
+      parameterTarget(parameter.key),
+      [normalizeHeader(parameter.name), normalizeHeader(parameter.key)],
+    ]),
+  ];
+
+  patterns.forEach(([field, fieldPatterns]) => {
+    normalized.forEach((header, column) => {
+      fieldPatterns.some((pattern, priority) => {
+        const score = scoreHeader(header, pattern);
+        if (score > 0) {
+          candidates.push({ field, column, score, priority });
+          return true;
+        }
+        return false;
+      });
+    });
+  });
+
+  candidates.sort((a, b) =>
+    b.score - a.score ||
+    a.priority - b.priority ||
+    normalized[a.column].length - normalized[b.column].length
+  );
+
+  const mapping: ColumnAssignment[] = headers.map(() => ({ target: 'ignore', confidence: 'none' }));
+  const assigned = new Set<MappingTarget>();
+
+  candidates.forEach(({ field, column, score }) => {
+    if (assigned.has(field) || mapping[column].target !== 'ignore') return;
+    mapping[column] = { target: field, confidence: SCORE_CONFIDENCE[score] };
+    if (isNumericField(field)) {
+      mapping[column].unit = detectUnit(field, headers[column])?.id;
+    }
+    assigned.add(field);
+  });
+
+  return mapping;
+}
+
+/** Assigns a column manually, releasing the target from any other column. */
+export function assignColumn(mapping: ColumnAssignment[], column: number, target: MappingTarget): ColumnAssignment[] {
+  return mapping.map((assignment, index) => {
+    if (index === column) {
+      return { ...assignment, target, confidence: target === 'ignore' ? 'none' : 'manual' };
+    }
+    if (target !== 'ignore' && assignment.target === target) {
+      return { ...assignment, target: 'ignore', confidence: 'none' };
+    }
+    return assignment;
+  });
+}
+
+export function setColumnUnit(mapping: ColumnAssignment[], column: number, unit: string): ColumnAssignment[] {
+  return mapping.map((assignment, index) => (index === column ? { ...assignment, unit } : assignment));
+}
+
+export function isNumericField(target: MappingTarget): target is NumericField {
+  return (NUMERIC_FIELDS as MappingTarget[]).includes(target);
+}
+
+/** Source unit per numeric field, as recorded on the upload. */
+export function sourceUnits(mapping: ColumnAssignment[]) {
+  const units: Partial<Record<NumericField, string>> = {};
+  mapping.forEach(({ target, unit }) => {
+    if (isNumericField(target)) units[target] = getUnit(target, unit).id;
+  });
+  return units;
+}
+
+export function missingRequiredFields(mapping: ColumnAssignment[]) {
+  return REQUIRED_FIELDS.filter((field) => !mapping.some((m) => m.target === field));
+}
+
+export function columnOf(mapping: ColumnAssignment[], field: TargetField | ParameterTarget) {
+  return mapping.findIndex((m) => m.target === field);
+}
+
+/** Maps one source row onto the target fields, converting numbers to base units. */
+export function parseRow(
+  row: string[],
+  mapping: ColumnAssignment[],
+  options: NumberParseOptions = DEFAULT_PARSE_OPTIONS
+): ParsedRow {
+  const text = (field: TargetField) => {
+    const col = columnOf(mapping, field);
+    return col >= 0 && !isNullToken(row[col], options) ? row[col].trim() : 'Unknown';
+  };
+  const number = (field: NumericField) => {
+    const col = columnOf(mapping, field);
+    const value = col >= 0 ? parseNumber(row[col], options) : null;
+    return value === null ? null : toBase(field, mapping[col].unit, value);
+  };
+  const timestamp = () => {
+    const col = columnOf(mapping, 'reading_time');
+    return col >= 0 ? parseTimestamp(row[col], options) : null;
+  };
+  // Parameters have no unit conversion; values are kept in the parameter's own unit.
+  const extra: Record<string, number> = {};
+  mapping.forEach(({ target }, col) => {
+    const key = parameterKeyOf(target);
+    const value = key === null ? null : parseNumber(row[col], options);
+    if (key !== null && value !== null) extra[key] = value;
+  });
+
+  return {
+    equipment_name: text('equipment_name'),
+    equipment_type: text('equipment_type'),
+    flowrate: number('flowrate'),
+    pressure: number('pressure'),
+    temperature: number('temperature'),
+    reading_time: timestamp(),
+    extra,
+  };
+}
@@ -0,0 +1,37 @@
+import { ParsedRow, TARGET_FIELDS } from '@/lib/columnMapping';
+
+const ROWS_PER_BLOCK = 10000;
+
+const encoder = new TextEncoder();
+
+async function sha256Hex(data: BufferSource) {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * One line per row, values in base units, so the source format and display
+ * units do not matter. The reading time and the parameter values (in key
+ * order) are only written when present, so rows without them hash as they
+ * did before either existed and earlier uploads still count as duplicates.
+ */
+function normalizeRow(row: ParsedRow) {
+  const fields = TARGET_FIELDS.filter((field) => field !== 'reading_time' || row.reading_time !== null);
+  const values: unknown[] = fields.map((field) => row[field]);
+  const extra = Object.entries(row.extra).sort(([a], [b]) => (a < b ? -1 : 1));
+  return JSON.stringify(extra.length > 0 ? [...values, ...extra] : values);
+}
+
+/**
+ * SHA-256 of the rows as they would be stored, in order. Rows are digested
+ * in blocks and the block digests hashed together, which keeps memory flat
+ * for large files while giving the same hash for the same rows.
+ */
+export async function hashRows(rows: ParsedRow[]) {
+  const blocks: string[] = [];
+  for (let start = 0; start < rows.length; start += ROWS_PER_BLOCK) {
+    const text = rows.slice(start, start + ROWS_PER_BLOCK).map(normalizeRow).join('\n');
+    blocks.push(await sha256Hex(encoder.encode(text)));
+  }
+  return sha256Hex(encoder.encode(blocks.join('')));
+}
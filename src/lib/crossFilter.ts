@@ -0,0 +1,92 @@
+import type { Json } from '@/integrations/supabase/types';
+import { DataColumn, metricColumn } from '@/lib/dataTable';
+import type { Limit } from '@/lib/equipment';
+import { Metric, MetricRow, metricValue } from '@/lib/metrics';
+
+/** A rectangle brushed on the scatter plot, in stored units. */
+export interface ScatterRegion {
+  x: Metric;
+  y: Metric;
+  xRange: [number, number];
+  yRange: [number, number];
+}
+
+/** Selections made in the Visualization charts, applied to every other view. */
+export interface CrossFilter {
+  /** Equipment types picked in the type distribution; empty means all. */
+  types: string[];
+  region: ScatterRegion | null;
+}
+
+export interface CrossFilterRow extends MetricRow {
+  equipment_type: string;
+}
+
+export const NO_CROSS_FILTER: CrossFilter = { types: [], region: null };
+
+export function isCrossFiltered(filter: CrossFilter) {
+  return filter.types.length > 0 || filter.region !== null;
+}
+
+export function toggleType(filter: CrossFilter, type: string): CrossFilter {
+  const types = filter.types.includes(type) ? filter.types.filter((t) => t !== type) : [...filter.types, type];
+  return { ...filter, types };
+}
+
+function within(value: number | null, [min, max]: [number, number]) {
+  return value !== null && value >= min && value <= max;
+}
+
+export function inRegion(row: MetricRow, region: ScatterRegion) {
+  return within(metricValue(row, region.x), region.xRange) && within(metricValue(row, region.y), region.yRange);
+}
+
+/**
+ * Whether the row passes the filter. A chart passes the part of the filter it
+ * sets itself as `ignore`, so it keeps showing what can still be selected.
+ */
+export function matchesCrossFilter(row: CrossFilterRow, filter: CrossFilter, ignore?: keyof CrossFilter) {
+  if (ignore !== 'types' && filter.types.length > 0 && !filter.types.includes(row.equipment_type)) return false;
+  if (ignore !== 'region' && filter.region && !inRegion(row, filter.region)) return false;
+  return true;
+}
+
+/** Aggregates of the rows passing a cross-filter, as computed by cross_filter_stats. */
+export interface CrossFilterStats {
+  count: number;
+  /** Means keyed by column; null when no row has a value. */
+  averages: Record<string, number | null>;
+  /** Readings per type, ignoring the type selection, in the shape of the upload summary's. */
+  typeDistribution: Record<string, number>;
+}
+
+function intersect(a: Limit | undefined, b: Limit): Limit {
+  const pick = (x: number | null | undefined, y: number | null, choose: (...values: number[]) => number) =>
+    x == null ? y : y === null ? x : choose(x, y);
+  return { min: pick(a?.min, b.min, Math.max), max: pick(a?.max, b.max, Math.min) };
+}
+
+/** Adds the brushed region to the table's own ranges; both have to hold. */
+export function withRegionRanges(
+  ranges: Partial<Record<DataColumn, Limit>>,
+  region: ScatterRegion | null
+): Partial<Record<DataColumn, Limit>> {
+  if (!region) return ranges;
+  const merged = { ...ranges };
+  const add = (metric: Metric, [min, max]: [number, number]) => {
+    const column = metricColumn(metric);
+    merged[column] = intersect(merged[column], { min, max });
+  };
+  add(region.x, region.xRange);
+  add(region.y, region.yRange);
+  return merged;
+}
+
+/** The brushed region as range filters keyed by column, for the database functions. */
+export function regionRangesJson(region: ScatterRegion | null): Json {
+  const ranges: Record<string, Json> = {};
+  for (const [column, limit] of Object.entries(withRegionRanges({}, region))) {
+    if (limit) ranges[column] = { min: limit.min, max: limit.max };
+  }
+  return ranges;
+}
@@ -0,0 +1,51 @@
+import type { Limit } from '@/lib/equipment';
+import type { Metric } from '@/lib/metrics';
+import type { Quantity } from '@/lib/units';
+
+/** Rows fetched per request while scrolling the data table. */
+export const DATA_TABLE_PAGE_SIZE = 200;
+
+export type SortDirection = 'asc' | 'desc';
+
+/** A column of equipment_data the table can sort or filter on. */
+export type DataColumn = 'equipment_name' | 'equipment_type' | 'reading_time' | Quantity | `extra->${string}`;
+
+export interface DataTableQuery {
+  search: string;
+  /** Equipment types to keep; empty means all. */
+  types: string[];
+  sort: { column: DataColumn; direction: SortDirection } | null;
+  /** Bounds per metric column, in stored units. */
+  ranges: Partial<Record<DataColumn, Limit>>;
+}
+
+export const EMPTY_QUERY: DataTableQuery = { search: '', types: [], sort: null, ranges: {} };
+
+/** Where the metric is stored; parameters are read from the extra JSON with PostgREST's arrow syntax. */
+export function metricColumn(metric: Metric): DataColumn {
+  return 'quantity' in metric ? metric.quantity : `extra->${metric.parameter.key}`;
+}
+
+/**
+ * PostgREST `or` filter matching the text anywhere in the name or type.
+ * The pattern is quoted so commas and parentheses in it are taken literally,
+ * and LIKE wildcards typed by the user match themselves.
+ */
+export function searchFilter(text: string) {
+  const escaped = text.trim().replace(/[\\%_]/g, (char) => `\\${char}`);
+  const quoted = `"%${escaped.replace(/["\\]/g, (char) => `\\${char}`)}%"`;
+  return `equipment_name.ilike.${quoted},equipment_type.ilike.${quoted}`;
+}
+
+/** Next sort when a header is clicked: ascending, then descending, then the upload's own order. */
+export function nextSort(current: DataTableQuery['sort'], column: DataColumn): DataTableQuery['sort'] {
+  if (current?.column !== column) return { column, direction: 'asc' };
+  return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+}
+
+/** Rows to render for the scroll position, with `overscan` extra rows on each side. */
+export function visibleWindow(scrollTop: number, viewportHeight: number, rowHeight: number, total: number, overscan = 10) {
+  const start = Math.min(total, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(total, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return { start, end: Math.max(start, end) };
+}
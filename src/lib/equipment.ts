@@ -0,0 +1,202 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { Metric, MetricRow, metricValue } from '@/lib/metrics';
+
+export type EquipmentRow = Tables<'equipment'>;
+
+/**
+ * An asset in the equipment registry. Uploaded rows are linked to it by tag,
+ * ignoring case and surrounding spaces, when the upload is committed.
+ */
+export interface Equipment {
+  id: string;
+  tag: string;
+  type: string | null;
+  area: string | null;
+  manufacturer: string | null;
+  /** ISO date (yyyy-MM-dd). */
+  commissionedOn: string | null;
+  limits: EquipmentLimits;
+}
+
+export type EquipmentDetails = Omit<Equipment, 'id' | 'tag' | 'limits'>;
+
+/** Operating window of one metric, in the metric's stored unit. */
+export interface Limit {
+  min: number | null;
+  max: number | null;
+}
+
+/** Limits keyed by metric id. */
+export type EquipmentLimits = Record<string, Limit>;
+
+/** Where the latest reading sits relative to the limits. */
+export type LimitStatus = 'normal' | 'low' | 'high' | 'noLimits' | 'noData';
+
+/** Average of one metric over the asset's readings in one upload. */
+export interface UploadTrendPoint {
+  uploadId: string;
+  filename: string;
+  uploadedAt: string;
+  average: number;
+}
+
+export interface EquipmentStats {
+  readingCount: number;
+  uploadCount: number;
+  lastSeenAt: string | null;
+}
+
+/** One row of an asset's readings, with the upload it came from. */
+export interface EquipmentReading extends MetricRow {
+  id: string;
+  upload_id: string;
+  equipment_type: string;
+  reading_time: string | null;
+  created_at: string;
+  uploads: { filename: string; created_at: string; archived_at: string | null } | null;
+}
+
+export const EMPTY_STATS: EquipmentStats = { readingCount: 0, uploadCount: 0, lastSeenAt: null };
+
+export function equipmentFromRow(row: EquipmentRow): Equipment {
+  return {
+    id: row.id,
+    tag: row.tag,
+    type: row.equipment_type,
+    area: row.area,
+    manufacturer: row.manufacturer,
+    commissionedOn: row.commissioned_on,
+    limits: limitsFromJson(row.limits),
+  };
+}
+
+function limitsFromJson(value: Json): EquipmentLimits {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const bound = (limit: Json | undefined, key: 'min' | 'max') => {
+    const v = limit && typeof limit === 'object' && !Array.isArray(limit) ? limit[key] : null;
+    return typeof v === 'number' ? v : null;
+  };
+  return Object.fromEntries(
+    Object.entries(value).map(([id, limit]) => [id, { min: bound(limit, 'min'), max: bound(limit, 'max') }])
+  );
+}
+
+/** Limits without empty entries, ready to store. */
+export function limitsToJson(limits: EquipmentLimits): Json {
+  return Object.fromEntries(
+    Object.entries(limits)
+      .filter(([, limit]) => limit.min !== null || limit.max !== null)
+      .map(([id, limit]) => [id, { min: limit.min, max: limit.max }])
+  );
+}
+
+/** Tags match ignoring case and surrounding spaces, as in commit_upload. */
+export function tagKey(tag: string) {
+  return tag.trim().toLowerCase();
+}
+
+export function findByTag(equipment: Equipment[], tag: string) {
+  const key = tagKey(tag);
+  return equipment.find((item) => tagKey(item.tag) === key);
+}
+
+/** Route of the asset's page. */
+export function equipmentPath(tag: string) {
+  return `/equipment/${encodeURIComponent(tag)}`;
+}
+
+/** The asset's own limit, falling back to a process parameter's expected range. */
+export function metricLimit(equipment: Equipment, metric: Metric): Limit {
+  const own = equipment.limits[metric.id];
+  if (own) return own;
+  if ('parameter' in metric) return { min: metric.parameter.min, max: metric.parameter.max };
+  return { min: null, max: null };
+}
+
+export function limitStatus(value: number | null, limit: Limit): LimitStatus {
+  if (value === null) return 'noData';
+  if (limit.min === null && limit.max === null) return 'noLimits';
+  if (limit.min !== null && value < limit.min) return 'low';
+  if (limit.max !== null && value > limit.max) return 'high';
+  return 'normal';
+}
+
+// Readings without a reading time count as taken when their upload was made.
+function takenAt(reading: EquipmentReading) {
+  return reading.reading_time ?? reading.uploads?.created_at ?? reading.created_at;
+}
+
+/** The most recent reading that has a value for the metric. */
+export function latestValue(readings: EquipmentReading[], metric: Metric) {
+  let latest: { value: number; at: string } | null = null;
+  for (const reading of readings) {
+    const value = metricValue(reading, metric);
+    const at = takenAt(reading);
+    if (value !== null && (!latest || new Date(at) > new Date(latest.at))) latest = { value, at };
+  }
+  return latest;
+}
+
+/** The uploads that include the asset, newest first, with its reading count in each. */
+export function readingUploads(readings: EquipmentReading[]) {
+  const uploads = new Map<string, { uploadId: string; filename: string; uploadedAt: string; archivedAt: string | null; readingCount: number }>();
+  for (const reading of readings) {
+    const upload = uploads.get(reading.upload_id);
+    if (upload) {
+      upload.readingCount++;
+      continue;
+    }
+    uploads.set(reading.upload_id, {
+      uploadId: reading.upload_id,
+      filename: reading.uploads?.filename ?? '',
+      uploadedAt: reading.uploads?.created_at ?? reading.created_at,
+      archivedAt: reading.uploads?.archived_at ?? null,
+      readingCount: 1,
+    });
+  }
+  return [...uploads.values()].sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+}
+
+/** Per-upload averages of the metric, oldest upload first. */
+export function uploadTrend(readings: EquipmentReading[], metric: Metric): UploadTrendPoint[] {
+  const byUpload = new Map<string, { point: Omit<UploadTrendPoint, 'average'>; sum: number; count: number }>();
+  for (const reading of readings) {
+    const value = metricValue(reading, metric);
+    if (value === null) continue;
+    const entry = byUpload.get(reading.upload_id) ?? {
+      point: {
+        uploadId: reading.upload_id,
+        filename: reading.uploads?.filename ?? '',
+        uploadedAt: reading.uploads?.created_at ?? reading.created_at,
+      },
+      sum: 0,
+      count: 0,
+    };
+    entry.sum += value;
+    entry.count++;
+    byUpload.set(reading.upload_id, entry);
+  }
+  return [...byUpload.values()]
+    .map(({ point, sum, count }) => ({ ...point, average: sum / count }))
+    .sort((a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime());
+}
+
+/** Columns to write for edited details; blank text is stored as null. */
+export function equipmentDetailsToRow(details: EquipmentDetails) {
+  const text = (value: string | null) => value?.trim() || null;
+  return {
+    equipment_type: text(details.type),
+    area: text(details.area),
+    manufacturer: text(details.manufacturer),
+    commissioned_on: details.commissionedOn || null,
+  };
+}
+
+/** Case-insensitive search over tag, type, area and manufacturer. */
+export function matchesEquipmentSearch(equipment: Equipment, query: string) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [equipment.tag, equipment.type, equipment.area, equipment.manufacturer].some((value) =>
+    value?.toLowerCase().includes(needle)
+  );
+}
@@ -0,0 +1,101 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { ColumnAssignment, MappingTarget } from '@/lib/columnMapping';
+import { DecimalSeparator, ParseOptions, ThousandsSeparator } from '@/lib/parsing';
+
+export type ImportProfileRow = Tables<'import_profiles'>;
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  /** Target field per lower-cased header name. */
+  columnMapping: Record<string, MappingTarget>;
+  /** Unit per lower-cased header name. */
+  columnUnits: Record<string, string>;
+  options: ParseOptions;
+  headerFingerprint: string | null;
+}
+
+// Profiles whose headers overlap less than this are not suggested.
+const MIN_SIMILARITY = 0.8;
+
+export function profileFromRow(row: ImportProfileRow): ImportProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    columnMapping: (row.column_mapping ?? {}) as Record<string, MappingTarget>,
+    columnUnits: (row.column_units ?? {}) as Record<string, string>,
+    options: {
+      delimiter: row.delimiter,
+      decimalSeparator: row.decimal_separator as DecimalSeparator,
+      thousandsSeparator: row.thousands_separator as ThousandsSeparator,
+      headerRowOffset: row.header_row_offset,
+      nullTokens: row.null_tokens,
+    },
+    headerFingerprint: row.header_fingerprint,
+  };
+}
+
+// Unlike normalizeHeader this keeps unit suffixes, so "Pressure (psi)" and
+// "Pressure (bar)" exports are told apart.
+function headerKey(header: string) {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** Order-insensitive signature of a header row, used to recognise an export format. */
+export function headerFingerprint(headers: string[]) {
+  return headers
+    .map(headerKey)
+    .filter(Boolean)
+    .sort()
+    .join('|');
+}
+
+function similarity(a: string, b: string) {
+  const left = new Set(a.split('|'));
+  const right = new Set(b.split('|'));
+  const shared = [...left].filter((h) => right.has(h)).length;
+  return shared / new Set([...left, ...right]).size;
+}
+
+/** Returns the saved profile whose header fingerprint best matches the parsed headers. */
+export function findMatchingProfile(profiles: ImportProfile[], headers: string[]) {
+  const fingerprint = headerFingerprint(headers);
+  let best: ImportProfile | null = null;
+  let bestScore = MIN_SIMILARITY;
+
+  profiles.forEach((profile) => {
+    if (!profile.headerFingerprint) return;
+    const score = similarity(profile.headerFingerprint, fingerprint);
+    if (score >= bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  });
+
+  return best as ImportProfile | null;
+}
+
+export function mappingFromProfile(profile: ImportProfile, headers: string[]): ColumnAssignment[] {
+  return headers.map((header) => {
+    const key = headerKey(header);
+    const target = profile.columnMapping[key] ?? 'ignore';
+    return {
+      target,
+      confidence: target === 'ignore' ? 'none' : 'high',
+      unit: profile.columnUnits[key],
+    };
+  });
+}
+
+export function profileFieldsFromMapping(headers: string[], mapping: ColumnAssignment[]) {
+  const columnMapping: Record<string, MappingTarget> = {};
+  const columnUnits: Record<string, string> = {};
+
+  headers.forEach((header, index) => {
+    const key = headerKey(header);
+    if (mapping[index].target !== 'ignore') columnMapping[key] = mapping[index].target;
+    if (mapping[index].unit) columnUnits[key] = mapping[index].unit;
+  });
+
+  return { columnMapping, columnUnits, headerFingerprint: headerFingerprint(headers) };
+}
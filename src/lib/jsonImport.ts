@@ -0,0 +1,113 @@
+export function isJsonFile(name: string) {
+  return /\.(json|ndjson|jsonl)$/i.test(name);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Parses a JSON document, falling back to newline-delimited JSON (one value per line). */
+export function parseJsonDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim());
+    if (lines.length < 2) throw err;
+    return lines.map((line) => JSON.parse(line));
+  }
+}
+
+const WILDCARD = '*';
+
+/**
+ * Splits a JSONPath-style selector into property and index steps.
+ * Supports `$`, `.key`, `['key']`, `[0]` and `[*]`; a leading `$` is optional.
+ */
+export function parseSelector(selector: string): (string | number)[] {
+  const steps: (string | number)[] = [];
+  const pattern = /\.?([^.[\]]+)|\[(\d+)\]|\[['"](.+?)['"]\]|\[\*\]/g;
+  const path = selector.trim().replace(/^\$/, '');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(path)) !== null) {
+    if (match[1] !== undefined) steps.push(match[1]);
+    else if (match[2] !== undefined) steps.push(Number(match[2]));
+    else if (match[3] !== undefined) steps.push(match[3]);
+    else steps.push(WILDCARD);
+  }
+  return steps;
+}
+
+function resolveSteps(value: unknown, steps: (string | number)[]): unknown {
+  if (steps.length === 0) return value;
+  const [step, ...rest] = steps;
+
+  if (step === WILDCARD) {
+    if (!Array.isArray(value)) return undefined;
+    // `$.units[*].readings` collects every unit's readings into one list.
+    return value.flatMap((item) => {
+      const resolved = resolveSteps(item, rest);
+      return resolved === undefined ? [] : resolved;
+    });
+  }
+  if (typeof step === 'number') return Array.isArray(value) ? resolveSteps(value[step], rest) : undefined;
+  return isRecord(value) ? resolveSteps(value[step], rest) : undefined;
+}
+
+export function resolvePath(value: unknown, selector: string): unknown {
+  return resolveSteps(value, parseSelector(selector));
+}
+
+/** Finds the first array of objects in the document, breadth first, and returns its selector. */
+export function findRecordArray(document: unknown): string | null {
+  const queue: { value: unknown; path: string }[] = [{ value: document, path: '$' }];
+
+  while (queue.length > 0) {
+    const { value, path } = queue.shift()!;
+    if (Array.isArray(value)) {
+      if (value.some(isRecord)) return path;
+    } else if (isRecord(value)) {
+      Object.entries(value).forEach(([key, child]) => {
+        const step = /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `['${key}']`;
+        queue.push({ value: child, path: `${path}${step}` });
+      });
+    }
+  }
+  return null;
+}
+
+/** Flattens nested objects and arrays into dotted paths such as `readings.flow.value`. */
+export function flattenRecord(value: unknown, prefix = '', out: Record<string, string> = {}) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenRecord(item, `${prefix}[${index}]`, out));
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([key, child]) => flattenRecord(child, prefix ? `${prefix}.${key}` : key, out));
+  } else if (prefix) {
+    out[prefix] = value === null || value === undefined ? '' : String(value);
+  }
+  return out;
+}
+
+/**
+ * Converts the records found at `selector` into header + data rows, the same
+ * shape the CSV and spreadsheet readers produce. Returns null when the
+ * selector does not point at an array.
+ */
+export function recordsToRows(document: unknown, selector: string): string[][] | null {
+  const records = resolvePath(document, selector);
+  if (!Array.isArray(records)) return null;
+
+  const flattened = records.map((record) => flattenRecord(record));
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  flattened.forEach((record) => {
+    Object.keys(record).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+  });
+
+  return [headers, ...flattened.map((record) => headers.map((header) => record[header] ?? ''))];
+}
@@ -0,0 +1,59 @@
+import type { Json } from '@/integrations/supabase/types';
+import { NUMERIC_FIELDS, ParameterTarget, parameterTarget } from '@/lib/columnMapping';
+import type { ProcessParameter } from '@/lib/processParameters';
+import type { Quantity } from '@/lib/units';
+
+/**
+ * A numeric value that charts, stat cards and reports can show: one of the
+ * built-in quantities, stored in its own column in base units, or a process
+ * parameter, stored in `extra` in the parameter's unit. Ids match the
+ * mapping targets of the same fields.
+ */
+export type Metric =
+  | { id: Quantity; quantity: Quantity }
+  | { id: ParameterTarget; parameter: ProcessParameter };
+
+/** The parts of an equipment_data row that hold metric values. */
+export interface MetricRow {
+  flowrate: number | null;
+  pressure: number | null;
+  temperature: number | null;
+  extra?: Json;
+}
+
+export interface MetricSummary {
+  avgFlowrate?: number;
+  avgPressure?: number;
+  avgTemperature?: number;
+  /** Absent on uploads made before process parameters. */
+  parameterAverages?: Record<string, number>;
+}
+
+const AVERAGE_KEYS: Record<Quantity, 'avgFlowrate' | 'avgPressure' | 'avgTemperature'> = {
+  flowrate: 'avgFlowrate',
+  pressure: 'avgPressure',
+  temperature: 'avgTemperature',
+};
+
+export const QUANTITY_METRICS: Metric[] = NUMERIC_FIELDS.map((quantity) => ({ id: quantity, quantity }));
+
+export function metricsFor(parameters: ProcessParameter[]): Metric[] {
+  return [
+    ...QUANTITY_METRICS,
+    ...parameters.map((parameter): Metric => ({ id: parameterTarget(parameter.key), parameter })),
+  ];
+}
+
+/** Stored value of the metric: base units for quantities, the parameter's unit otherwise. */
+export function metricValue(row: MetricRow, metric: Metric): number | null {
+  if ('quantity' in metric) return row[metric.quantity];
+  const extra = row.extra && typeof row.extra === 'object' && !Array.isArray(row.extra) ? row.extra : {};
+  const value = extra[metric.parameter.key];
+  return typeof value === 'number' ? value : null;
+}
+
+/** Average recorded in the upload summary by commit_upload. */
+export function metricAverage(summary: MetricSummary | null | undefined, metric: Metric): number | null {
+  if ('quantity' in metric) return summary?.[AVERAGE_KEYS[metric.quantity]] ?? null;
+  return summary?.parameterAverages?.[metric.parameter.key] ?? null;
+}
@@ -0,0 +1,43 @@
+const TOUR_KEY = 'chempristine.onboardingTour';
+
+/** One stop of the first-run tour: a page in the main navigation. */
+export interface TourStep {
+  path: string;
+  /** Key under onboarding.steps for the title and text. */
+  key: string;
+}
+
+export const TOUR_STEPS: TourStep[] = [
+  { path: '/dashboard', key: 'dashboard' },
+  { path: '/upload', key: 'upload' },
+  { path: '/visualization', key: 'visualization' },
+  { path: '/equipment', key: 'equipment' },
+  { path: '/history', key: 'history' },
+  { path: '/settings', key: 'settings' },
+];
+
+/**
+ * Where the user is in the tour: a step index while it runs, 'done' once
+ * finished or skipped. Users who never saw it start at the first step.
+ */
+export type TourState = number | 'done';
+
+type StoredTours = Record<string, TourState>;
+
+function readTours(): StoredTours {
+  try {
+    return JSON.parse(localStorage.getItem(TOUR_KEY) ?? '{}') as StoredTours;
+  } catch {
+    return {};
+  }
+}
+
+export function loadTourState(userId: string): TourState {
+  const state = readTours()[userId];
+  if (state === 'done') return state;
+  return typeof state === 'number' && state >= 0 && state < TOUR_STEPS.length ? state : 0;
+}
+
+export function saveTourState(userId: string, state: TourState) {
+  localStorage.setItem(TOUR_KEY, JSON.stringify({ ...readTours(), [userId]: state }));
+}
@@ -0,0 +1,294 @@
+import type { RawTable } from '@/lib/columnMapping';
+
+export type DecimalSeparator = '.' | ',';
+
+/** Digit grouping character; an empty string means numbers are not grouped. */
+export type ThousandsSeparator = '' | ',' | '.' | ' ' | "'";
+
+export interface ParseOptions {
+  /** Field delimiter; an empty string lets the parser detect it. */
+  delimiter: string;
+  decimalSeparator: DecimalSeparator;
+  thousandsSeparator: ThousandsSeparator;
+  /** Number of non-empty rows above the header row. */
+  headerRowOffset: number;
+  /** Cell values that mean "no reading"; compared case-insensitively after trimming. */
+  nullTokens: string[];
+}
+
+export const DEFAULT_NULL_TOKENS = ['', 'NA', '-', 'n/a', '#N/A'];
+
+export const DEFAULT_PARSE_OPTIONS: ParseOptions = {
+  delimiter: '',
+  decimalSeparator: '.',
+  thousandsSeparator: '',
+  headerRowOffset: 0,
+  nullTokens: DEFAULT_NULL_TOKENS,
+};
+
+/** The options that affect how a single cell is read. */
+export type NumberParseOptions = Pick<ParseOptions, 'decimalSeparator' | 'thousandsSeparator' | 'nullTokens'>;
+
+export const DELIMITER_OPTIONS = [
+  { value: '', label: 'auto' },
+  { value: ',', label: ',' },
+  { value: ';', label: ';' },
+  { value: '\t', label: 'tab' },
+  { value: '|', label: '|' },
+];
+
+export const THOUSANDS_SEPARATOR_OPTIONS: { value: ThousandsSeparator; label: string }[] = [
+  { value: '', label: 'none' },
+  { value: ',', label: 'comma' },
+  { value: '.', label: 'point' },
+  { value: ' ', label: 'space' },
+  { value: "'", label: 'apostrophe' },
+];
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const DELIMITER_SAMPLE_LINES = 20;
+
+function countOutsideQuotes(line: string, delimiter: string) {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+/**
+ * Picks the delimiter that splits the sample into the most consistent number
+ * of fields. Decimal commas make the comma count vary from row to row, so a
+ * semicolon file with "12,5" readings is still detected as semicolon.
+ */
+export function detectDelimiter(sample: string) {
+  const lines = sample
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .slice(0, DELIMITER_SAMPLE_LINES);
+  let best = { delimiter: ',', consistency: 0, fields: 0 };
+
+  DELIMITER_CANDIDATES.forEach((delimiter) => {
+    const frequencies = new Map<number, number>();
+    lines.forEach((line) => {
+      const count = countOutsideQuotes(line, delimiter);
+      if (count > 0) frequencies.set(count, (frequencies.get(count) ?? 0) + 1);
+    });
+
+    frequencies.forEach((lineCount, fields) => {
+      const consistency = lineCount / lines.length;
+      if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+        best = { delimiter, consistency, fields };
+      }
+    });
+  });
+
+  return best.delimiter;
+}
+
+/**
+ * Wraps text pasted from a spreadsheet or web page as a CSV file named after
+ * the dataset, so it goes through the same parsing, mapping and upload as a
+ * file. Copied ranges end in a line break, which would otherwise read as a
+ * blank row.
+ */
+export function pastedFile(text: string, datasetName: string) {
+  return new File([text.replace(/[\r\n]+$/, '')], datasetName.trim(), { type: 'text/csv' });
+}
+
+/** Splits raw rows into a header row and data rows, skipping any preamble. */
+export function tableFromRows(rows: string[][], headerRowOffset: number): RawTable | null {
+  const [headerRow, ...dataRows] = rows.slice(headerRowOffset);
+  if (!headerRow || dataRows.length === 0) return null;
+
+  return {
+    headers: headerRow.map((h) => String(h ?? '').trim()),
+    rows: dataRows,
+  };
+}
+
+/** Splits a comma-separated list typed by the user. Blank cells are always missing, so empty entries are dropped. */
+export function parseNullTokens(text: string) {
+  return text
+    .split(',')
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
+
+export function isNullToken(value: string | undefined, options: Pick<ParseOptions, 'nullTokens'>) {
+  const text = (value ?? '').trim().toLowerCase();
+  return text === '' || options.nullTokens.some((token) => token.trim().toLowerCase() === text);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rewrites the cell in plain "1234.5" notation, or returns null when its
+ * separators do not fit the format. A grouping separator is only accepted
+ * between groups of three digits, so "12.5" read with "." grouping is
+ * flagged rather than read as 125.
+ */
+function normalizeSeparators(value: string, options: Pick<ParseOptions, 'decimalSeparator' | 'thousandsSeparator'>) {
+  const { decimalSeparator, thousandsSeparator } = options;
+  let text = value;
+  if (thousandsSeparator) {
+    const group = thousandsSeparator === ' ' ? '\\s' : escapeRegExp(thousandsSeparator);
+    if (new RegExp(group).test(text)) {
+      const grouped = new RegExp(`^[+-]?\\d{1,3}(${group}\\d{3})+(${escapeRegExp(decimalSeparator)}\\d+)?$`);
+      if (!grouped.test(text)) return null;
+      text = text.replace(new RegExp(group, 'g'), '');
+    }
+  }
+  if (decimalSeparator === ',') {
+    if (text.includes('.')) return null;
+    text = text.replace(',', '.');
+  }
+  return text;
+}
+
+export type NumberFormat = Pick<ParseOptions, 'decimalSeparator' | 'thousandsSeparator'>;
+
+/** Separators the given UI locale writes numbers with, e.g. "1.234,5" for nl. */
+export function separatorsForLocale(locale: string): NumberFormat {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  const decimal = parts.find((part) => part.type === 'decimal')?.value;
+  const group = parts.find((part) => part.type === 'group')?.value ?? '';
+  const decimalSeparator: DecimalSeparator = decimal === ',' ? ',' : '.';
+  // Narrow and non-breaking spaces are matched as plain spaces.
+  const thousands = /\s/.test(group) ? ' ' : group;
+  const thousandsSeparator = THOUSANDS_SEPARATOR_OPTIONS.some((option) => option.value === thousands) && thousands !== decimalSeparator
+    ? (thousands as ThousandsSeparator)
+    : '';
+  return { decimalSeparator, thousandsSeparator };
+}
+
+/** 1234.5 written in the format, e.g. "1.234,5", to show which format is in use. */
+export function numberFormatExample({ decimalSeparator, thousandsSeparator }: NumberFormat) {
+  return `1${thousandsSeparator}234${decimalSeparator}5`;
+}
+
+const OTHER_DECIMAL: Record<DecimalSeparator, DecimalSeparator> = { '.': ',', ',': '.' };
+
+/** What a single cell says about the number format; ambiguous cells such as "1,234" say nothing. */
+function cellNumberFormat(cell: string): Partial<NumberFormat> | null {
+  for (const decimal of ['.', ','] as DecimalSeparator[]) {
+    const d = escapeRegExp(decimal);
+    const other = OTHER_DECIMAL[decimal];
+    const o = escapeRegExp(other);
+    // "1.234,5": both present, the last one is the decimal separator.
+    if (new RegExp(`^[+-]?\\d{1,3}(${o}\\d{3})+${d}\\d+$`).test(cell)) {
+      return { decimalSeparator: decimal, thousandsSeparator: other };
+    }
+    // "1.234.567": the separator repeats, so it groups digits.
+    if (new RegExp(`^[+-]?\\d{1,3}(${d}\\d{3}){2,}$`).test(cell)) {
+      return { decimalSeparator: other, thousandsSeparator: decimal };
+    }
+    // "12,5", "0,125" or "1234,567" cannot be grouping.
+    const single = new RegExp(`^[+-]?(\\d+)${d}(\\d+)$`).exec(cell);
+    if (single && (single[2].length !== 3 || single[1].length > 3 || /^0/.test(single[1]))) {
+      return { decimalSeparator: decimal };
+    }
+  }
+  // "1 234" or "1'234,5"
+  const grouped = /^[+-]?\d{1,3}([ '])\d{3}(\1\d{3})*([.,]\d+)?$/.exec(cell);
+  if (grouped) {
+    const decimal = grouped[3]?.[0] as DecimalSeparator | undefined;
+    return { thousandsSeparator: grouped[1] as ThousandsSeparator, ...(decimal && { decimalSeparator: decimal }) };
+  }
+  return null;
+}
+
+/**
+ * Works out the number format from a sample of cells, so it follows the file
+ * rather than the interface language. Null when no cell tells the formats
+ * apart; the interface language's separators then apply and cells that do
+ * not fit are flagged.
+ */
+export function detectNumberFormat(rows: string[][]): NumberFormat | null {
+  const decimals: Record<DecimalSeparator, number> = { '.': 0, ',': 0 };
+  const groupings = new Map<ThousandsSeparator, number>();
+  const ambiguous = new Set<DecimalSeparator>();
+
+  rows.forEach((row) =>
+    row.forEach((value) => {
+      const cell = String(value ?? '').trim();
+      if (!/^[+-]?\d[\d.,' ]*\d$/.test(cell)) return;
+      const format = cellNumberFormat(cell);
+      if (format?.decimalSeparator) decimals[format.decimalSeparator]++;
+      if (format?.thousandsSeparator) {
+        groupings.set(format.thousandsSeparator, (groupings.get(format.thousandsSeparator) ?? 0) + 1);
+      }
+      if (!format && /^[+-]?\d{1,3}[.,]\d{3}$/.test(cell)) ambiguous.add(cell.includes(',') ? ',' : '.');
+    })
+  );
+
+  if (decimals['.'] === 0 && decimals[','] === 0) return null;
+  const decimalSeparator: DecimalSeparator = decimals[','] > decimals['.'] ? ',' : '.';
+  // "1,234" next to "12.5" can only be grouping.
+  const other = OTHER_DECIMAL[decimalSeparator];
+  if (ambiguous.has(other)) groupings.set(other, (groupings.get(other) ?? 0) + 1);
+  const [thousandsSeparator = ''] = [...groupings]
+    .filter(([separator]) => separator !== decimalSeparator)
+    .sort((a, b) => b[1] - a[1])
+    .map(([separator]) => separator);
+  return { decimalSeparator, thousandsSeparator };
+}
+
+// The whole cell has to be the number: "7 bar" or "12abc" are not read as 7 or 12.
+const PLAIN_NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i;
+
+/** Reads a numeric cell. Null tokens and unreadable text give null; zero stays zero. */
+export function parseNumber(value: string | undefined, options: NumberParseOptions) {
+  if (isNullToken(value, options)) return null;
+  const text = normalizeSeparators(value!.trim(), options);
+  if (text === null || !PLAIN_NUMBER.test(text)) return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+/** True when the cell holds something other than a number or a null token. */
+export function isUnreadableNumber(value: string | undefined, options: NumberParseOptions) {
+  return !isNullToken(value, options) && parseNumber(value, options) === null;
+}
+
+// 2026-02-12 08:30, 2026-02-12T08:30:15.250Z, 2026/02/12 08:30:15+01:00
+const ISO_LIKE = /^(\d{4})[-/](\d{2})[-/](\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const EPOCH_SECONDS = /^\d{10}(\.\d+)?$/;
+const EPOCH_MILLISECONDS = /^\d{13}$/;
+// Date.parse reads "12.5" as December 5th and "45" as the year 2045.
+const BARE_NUMBER = /^[+-]?\d+(?:[.,]\d+)?$/;
+
+/**
+ * Reads a timestamp cell as an ISO string. Accepts ISO-like dates with an
+ * optional time and offset (local time when there is none), Unix epoch
+ * seconds or milliseconds, and otherwise whatever Date.parse understands.
+ * Other bare numbers are not timestamps.
+ */
+export function parseTimestamp(value: string | undefined, options: Pick<ParseOptions, 'nullTokens'>) {
+  if (isNullToken(value, options)) return null;
+  const text = value!.trim();
+
+  let time: number;
+  const iso = ISO_LIKE.exec(text);
+  if (iso) {
+    const [, year, month, day, hour = '00', minute = '00', second = '00', zone] = iso;
+    const offset = zone ? (zone.toUpperCase() === 'Z' ? 'Z' : zone.replace(/(\d{2})(\d{2})$/, '$1:$2')) : '';
+    time = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second.padStart(2, '0')}${offset}`);
+  } else if (EPOCH_SECONDS.test(text)) {
+    time = parseFloat(text) * 1000;
+  } else if (EPOCH_MILLISECONDS.test(text)) {
+    time = Number(text);
+  } else if (BARE_NUMBER.test(text)) {
+    time = NaN;
+  } else {
+    time = Date.parse(text);
+  }
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/** True when the cell holds something other than a timestamp or a null token. */
+export function isUnreadableTimestamp(value: string | undefined, options: Pick<ParseOptions, 'nullTokens'>) {
+  return !isNullToken(value, options) && parseTimestamp(value, options) === null;
+}
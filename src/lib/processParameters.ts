@@ -0,0 +1,48 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ProcessParameterRow = Tables<'process_parameters'>;
+
+/**
+ * A numeric field the user defined on top of flowrate, pressure and
+ * temperature. Values are stored as entered, in `unit`, under `key` in
+ * equipment_data.extra.
+ */
+export interface ProcessParameter {
+  id: string;
+  key: string;
+  name: string;
+  unit: string;
+  /** Expected range; values outside it are flagged on import. */
+  min: number | null;
+  max: number | null;
+}
+
+export type ProcessParameterDraft = Omit<ProcessParameter, 'id' | 'key'>;
+
+export function parameterFromRow(row: ProcessParameterRow): ProcessParameter {
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    unit: row.unit,
+    min: row.min_value,
+    max: row.max_value,
+  };
+}
+
+/** Storage key for a parameter name: "Power Draw (kW)" becomes "power_draw_kw". */
+export function parameterKey(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function isOutOfRange(parameter: Pick<ProcessParameter, 'min' | 'max'>, value: number) {
+  return (parameter.min !== null && value < parameter.min) || (parameter.max !== null && value > parameter.max);
+}
+
+/** Name with the unit, for column headers and axis titles. */
+export function parameterLabel(parameter: Pick<ProcessParameter, 'name' | 'unit'>) {
+  return parameter.unit ? `${parameter.name} (${parameter.unit})` : parameter.name;
+}
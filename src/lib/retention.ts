@@ -0,0 +1,55 @@
+export type RetentionMode = 'count' | 'days' | 'forever';
+
+export const RETENTION_MODES: RetentionMode[] = ['count', 'days', 'forever'];
+
+/**
+ * Which uploads a user keeps. Enforced by commit_upload on the server; the
+ * client only reads it to describe the policy and warn before removals.
+ */
+export interface RetentionPolicy {
+  mode: RetentionMode;
+  /** Number of uploads for 'count', number of days for 'days'. */
+  value: number;
+  /** Expired uploads are archived instead of deleted. */
+  archive: boolean;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { mode: 'count', value: 5, archive: false };
+
+export const MAX_RETENTION_VALUE = 3650;
+
+export interface RetentionCandidate {
+  id: string;
+  filename: string;
+  created_at: string;
+}
+
+export function retentionFromProfile(row: {
+  retention_mode?: string | null;
+  retention_value?: number | null;
+  retention_archive?: boolean | null;
+}): RetentionPolicy {
+  const mode = RETENTION_MODES.includes(row.retention_mode as RetentionMode)
+    ? (row.retention_mode as RetentionMode)
+    : DEFAULT_RETENTION.mode;
+  return {
+    mode,
+    value: clampRetentionValue(row.retention_value ?? DEFAULT_RETENTION.value),
+    archive: row.retention_archive ?? DEFAULT_RETENTION.archive,
+  };
+}
+
+/**
+ * How many of `incoming` uploads committed one after another the policy
+ * removes again once the last of them is in: only a count limit smaller than
+ * the batch does. These are the first ones committed.
+ */
+export function retentionOverflow(policy: RetentionPolicy, incoming: number) {
+  return policy.mode === 'count' ? Math.max(0, incoming - policy.value) : 0;
+}
+
+/** Whole number of at least 1 (the profiles check constraint), capped at MAX_RETENTION_VALUE. */
+export function clampRetentionValue(value: number) {
+  if (!Number.isFinite(value)) return DEFAULT_RETENTION.value;
+  return Math.min(MAX_RETENTION_VALUE, Math.max(1, Math.round(value)));
+}
@@ -0,0 +1,111 @@
+import type { ParsedRow } from '@/lib/columnMapping';
+import type { Quantity } from '@/lib/units';
+
+export type SampleDatasetId = 'pumpSkid' | 'heatExchangerTrain' | 'reactorLoop';
+
+/** One asset in a sample dataset, with its nominal values in base units. */
+interface SampleAsset {
+  tag: string;
+  type: string;
+  nominal: Record<Quantity, number | null>;
+  /** Share of the nominal value the readings swing over a day. */
+  swing?: number;
+  /** Change over the whole period, for assets that are slowly going wrong. */
+  drift?: Partial<Record<Quantity, number>>;
+}
+
+export interface SampleDataset {
+  id: SampleDatasetId;
+  /** Used as the upload's filename. */
+  filename: string;
+  assets: SampleAsset[];
+}
+
+// Two days of readings every 30 minutes.
+const READING_INTERVAL_MS = 30 * 60_000;
+const READING_COUNT = 96;
+const NOISE = 0.01;
+
+export const SAMPLE_DATASETS: SampleDataset[] = [
+  {
+    id: 'pumpSkid',
+    filename: 'Sample - Pump skid.csv',
+    assets: [
+      { tag: 'P-101A', type: 'Centrifugal pump', nominal: { flowrate: 85, pressure: 6.2, temperature: 38 }, swing: 0.08 },
+      // Worn impeller: discharge pressure sags while the flow holds.
+      { tag: 'P-101B', type: 'Centrifugal pump', nominal: { flowrate: 84, pressure: 6.1, temperature: 41 }, swing: 0.08, drift: { pressure: -0.9, temperature: 4 } },
+      { tag: 'P-102', type: 'Dosing pump', nominal: { flowrate: 1.2, pressure: 9.5, temperature: 24 }, swing: 0.03 },
+      { tag: 'FT-101', type: 'Flow meter', nominal: { flowrate: 169, pressure: null, temperature: null }, swing: 0.08 },
+    ],
+  },
+  {
+    id: 'heatExchangerTrain',
+    filename: 'Sample - Heat exchanger train.csv',
+    assets: [
+      { tag: 'E-201', type: 'Shell and tube exchanger', nominal: { flowrate: 120, pressure: 4.8, temperature: 65 }, swing: 0.04 },
+      { tag: 'E-202', type: 'Shell and tube exchanger', nominal: { flowrate: 120, pressure: 4.3, temperature: 92 }, swing: 0.04 },
+      // Fouling: less heat picked up and a growing pressure drop.
+      { tag: 'E-203', type: 'Shell and tube exchanger', nominal: { flowrate: 120, pressure: 3.8, temperature: 118 }, swing: 0.04, drift: { temperature: -7, pressure: -0.4 } },
+      { tag: 'E-204', type: 'Plate exchanger', nominal: { flowrate: 120, pressure: 3.1, temperature: 131 }, swing: 0.04 },
+    ],
+  },
+  {
+    id: 'reactorLoop',
+    filename: 'Sample - Reactor loop.csv',
+    assets: [
+      { tag: 'R-301', type: 'Stirred tank reactor', nominal: { flowrate: null, pressure: 12.5, temperature: 182 }, swing: 0.03 },
+      { tag: 'P-301', type: 'Circulation pump', nominal: { flowrate: 240, pressure: 14.2, temperature: 178 }, swing: 0.05 },
+      { tag: 'E-301', type: 'Loop cooler', nominal: { flowrate: 240, pressure: 13.6, temperature: 151 }, swing: 0.05, drift: { temperature: 5 } },
+      { tag: 'V-301', type: 'Flash drum', nominal: { flowrate: 35, pressure: 2.4, temperature: 96 }, swing: 0.06 },
+      { tag: 'TT-302', type: 'Temperature transmitter', nominal: { flowrate: null, pressure: null, temperature: 64 }, swing: 0.05 },
+    ],
+  },
+];
+
+// Small seeded generator so a sample always contains the same readings.
+function random(seed: string) {
+  let state = [...seed].reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619), 2166136261);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** The dataset's readings, ending at `end`, in the shape the import produces. */
+export function sampleRows(dataset: SampleDataset, end: Date = new Date()): ParsedRow[] {
+  const next = random(dataset.id);
+  const start = end.getTime() - (READING_COUNT - 1) * READING_INTERVAL_MS;
+  const rows: ParsedRow[] = [];
+
+  for (let index = 0; index < READING_COUNT; index++) {
+    const time = start + index * READING_INTERVAL_MS;
+    const progress = index / (READING_COUNT - 1);
+    const daily = Math.sin((2 * Math.PI * time) / (24 * 3600_000));
+
+    for (const asset of dataset.assets) {
+      const value = (quantity: Quantity) => {
+        const nominal = asset.nominal[quantity];
+        if (nominal === null) return null;
+        const cycle = nominal * (asset.swing ?? 0) * daily;
+        const noise = nominal * NOISE * (next() * 2 - 1);
+        return round(nominal + cycle + noise + (asset.drift?.[quantity] ?? 0) * progress);
+      };
+      rows.push({
+        equipment_name: asset.tag,
+        equipment_type: asset.type,
+        flowrate: value('flowrate'),
+        pressure: value('pressure'),
+        temperature: value('temperature'),
+        reading_time: new Date(time).toISOString(),
+        extra: {},
+      });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,35 @@
+import * as XLSX from 'xlsx';
+import type { NumberFormat } from '@/lib/parsing';
+
+export type Workbook = XLSX.WorkBook;
+
+export function isSpreadsheetFile(name: string) {
+  return /\.(xlsx|xls)$/i.test(name);
+}
+
+export async function readWorkbook(file: File): Promise<Workbook> {
+  const buffer = await file.arrayBuffer();
+  return XLSX.read(buffer, { type: 'array', cellDates: true });
+}
+
+function cellText(value: unknown) {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/** Numeric cells are read raw, so they arrive written the way JavaScript writes numbers. */
+export const SHEET_NUMBER_FORMAT: NumberFormat = { decimalSeparator: '.', thousandsSeparator: '' };
+
+/**
+ * Returns the sheet as rows of strings, the same shape Papa Parse produces for
+ * a CSV. Numbers are read raw rather than as formatted text so a cell shown as
+ * "1,234.50" still reaches the mapping step as "1234.5".
+ */
+export function sheetRows(workbook: Workbook, sheetName: string): string[][] {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: false });
+  return rows.map((row) => row.map(cellText));
+}
@@ -0,0 +1,155 @@
+import type { NumericField } from '@/lib/columnMapping';
+
+export type Quantity = NumericField;
+
+export interface UnitDefinition {
+  id: string;
+  label: string;
+  /** Spellings recognised in headers and saved profiles, already normalized. */
+  aliases: string[];
+  /** base = value * scale + offset */
+  scale: number;
+  offset?: number;
+}
+
+/** Units values are stored in; every import is converted to these before insert. Pressure is gauge. */
+export const BASE_UNITS: Record<Quantity, string> = {
+  flowrate: 'm3/h',
+  pressure: 'bar',
+  temperature: 'degC',
+};
+
+/** One standard atmosphere in bar, the difference between absolute and gauge pressure. */
+export const ATMOSPHERE_BAR = 1.01325;
+
+export const UNITS: Record<Quantity, UnitDefinition[]> = {
+  flowrate: [
+    { id: 'm3/h', label: 'm³/h', aliases: ['m3/h', 'm3/hr', 'm3h', 'cmh'], scale: 1 },
+    { id: 'm3/s', label: 'm³/s', aliases: ['m3/s', 'm3/sec'], scale: 3600 },
+    { id: 'L/min', label: 'L/min', aliases: ['l/min', 'lpm', 'l/m'], scale: 0.06 },
+    { id: 'L/s', label: 'L/s', aliases: ['l/s', 'lps', 'l/sec'], scale: 3.6 },
+    { id: 'L/h', label: 'L/h', aliases: ['l/h', 'lph', 'l/hr'], scale: 0.001 },
+    { id: 'gpm', label: 'gpm', aliases: ['gpm', 'gal/min', 'usgpm'], scale: 0.227124707 },
+    { id: 'cfm', label: 'ft³/min', aliases: ['cfm', 'ft3/min', 'scfm'], scale: 1.699010796 },
+    { id: 'bbl/d', label: 'bbl/d', aliases: ['bbl/d', 'bpd', 'bbl/day'], scale: 0.006624471 },
+  ],
+  // Absolute units are converted to gauge by subtracting one standard atmosphere.
+  pressure: [
+    { id: 'bar', label: 'bar', aliases: ['bar', 'barg'], scale: 1 },
+    { id: 'bara', label: 'bara', aliases: ['bara'], scale: 1, offset: -ATMOSPHERE_BAR },
+    { id: 'mbar', label: 'mbar', aliases: ['mbar', 'mbarg'], scale: 0.001 },
+    { id: 'mbara', label: 'mbara', aliases: ['mbara'], scale: 0.001, offset: -ATMOSPHERE_BAR },
+    { id: 'Pa', label: 'Pa', aliases: ['pa'], scale: 0.00001 },
+    { id: 'kPa', label: 'kPa', aliases: ['kpa', 'kpag'], scale: 0.01 },
+    { id: 'kPaa', label: 'kPa abs', aliases: ['kpaa'], scale: 0.01, offset: -ATMOSPHERE_BAR },
+    { id: 'MPa', label: 'MPa', aliases: ['mpa', 'mpag'], scale: 10 },
+    { id: 'MPaa', label: 'MPa abs', aliases: ['mpaa'], scale: 10, offset: -ATMOSPHERE_BAR },
+    { id: 'psi', label: 'psi', aliases: ['psi', 'psig', 'lb/in2'], scale: 0.0689475729 },
+    { id: 'psia', label: 'psia', aliases: ['psia'], scale: 0.0689475729, offset: -ATMOSPHERE_BAR },
+    { id: 'atm', label: 'atm', aliases: ['atm'], scale: 1.01325 },
+    { id: 'mmHg', label: 'mmHg', aliases: ['mmhg', 'torr'], scale: 0.00133322368 },
+    { id: 'kgf/cm2', label: 'kgf/cm²', aliases: ['kgf/cm2', 'kg/cm2', 'ksc'], scale: 0.980665 },
+  ],
+  temperature: [
+    { id: 'degC', label: '°C', aliases: ['degc', 'c', 'celsius'], scale: 1 },
+    { id: 'degF', label: '°F', aliases: ['degf', 'f', 'fahrenheit'], scale: 5 / 9, offset: -32 * (5 / 9) },
+    { id: 'K', label: 'K', aliases: ['k', 'kelvin'], scale: 1, offset: -273.15 },
+    { id: 'degR', label: '°R', aliases: ['degr', 'rankine'], scale: 5 / 9, offset: -273.15 },
+  ],
+};
+
+function normalizeUnit(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/°|º|deg\.?\s*/g, 'deg')
+    .replace(/³/g, '3')
+    .replace(/²/g, '2')
+    .replace(/\bper\b/g, '/')
+    .replace(/\s+/g, '');
+}
+
+export function findUnit(quantity: Quantity, text: string | undefined): UnitDefinition | null {
+  if (!text) return null;
+  const normalized = normalizeUnit(text);
+  return UNITS[quantity].find((unit) => unit.id.toLowerCase() === normalized || unit.aliases.includes(normalized)) ?? null;
+}
+
+export function getUnit(quantity: Quantity, id: string | undefined): UnitDefinition {
+  return findUnit(quantity, id) ?? findUnit(quantity, BASE_UNITS[quantity])!;
+}
+
+// Gauge unit to its absolute counterpart, for headers such as "Pressure abs (bar)".
+const ABSOLUTE_PRESSURE_UNITS: Record<string, string> = {
+  bar: 'bara',
+  mbar: 'mbara',
+  kPa: 'kPaa',
+  MPa: 'MPaa',
+  psi: 'psia',
+};
+
+const ABSOLUTE_HEADER = /\babs(olute)?\b/i;
+
+/**
+ * Reads a unit out of a column header such as "Pressure (psi)", "Temp [°F]"
+ * or "Flow m3/h". Bracketed text is tried first, then trailing words. A
+ * pressure header marked "abs" or "absolute" reads as the absolute unit, bara
+ * when it names none.
+ */
+export function detectUnit(quantity: Quantity, header: string): UnitDefinition | null {
+  const unit = detectNamedUnit(quantity, header);
+  if (quantity !== 'pressure' || !ABSOLUTE_HEADER.test(header)) return unit;
+  const absolute = ABSOLUTE_PRESSURE_UNITS[unit?.id ?? BASE_UNITS.pressure];
+  return absolute ? getUnit('pressure', absolute) : unit;
+}
+
+function detectNamedUnit(quantity: Quantity, header: string): UnitDefinition | null {
+  const bracketed = header.match(/[([]([^)\]]+)[)\]]/);
+  if (bracketed) {
+    const unit = findUnit(quantity, bracketed[1]);
+    if (unit) return unit;
+  }
+
+  const words = header.replace(/[([)\]]/g, ' ').split(/[\s_]+/).filter(Boolean);
+  for (let i = words.length - 1; i > 0; i--) {
+    const unit = findUnit(quantity, words[i]);
+    if (unit) return unit;
+  }
+  return null;
+}
+
+export function toBase(quantity: Quantity, unitId: string | undefined, value: number) {
+  const unit = getUnit(quantity, unitId);
+  return value * unit.scale + (unit.offset ?? 0);
+}
+
+export function fromBase(quantity: Quantity, unitId: string | undefined, value: number) {
+  const unit = getUnit(quantity, unitId);
+  return (value - (unit.offset ?? 0)) / unit.scale;
+}
+
+export function unitLabel(quantity: Quantity, unitId?: string) {
+  return getUnit(quantity, unitId ?? BASE_UNITS[quantity]).label;
+}
+
+/** Appends the unit to a column or axis label, e.g. "Pressure (bar)". */
+export function withUnit(label: string, quantity: Quantity, unitId?: string) {
+  return `${label} (${unitLabel(quantity, unitId)})`;
+}
+
+export type UnitSystem = 'metric' | 'imperial' | 'custom';
+
+export type DisplayUnits = Record<Quantity, string>;
+
+export const UNIT_SYSTEMS: Record<Exclude<UnitSystem, 'custom'>, DisplayUnits> = {
+  metric: BASE_UNITS,
+  imperial: { flowrate: 'gpm', pressure: 'psi', temperature: 'degF' },
+};
+
+export function resolveDisplayUnits(system: UnitSystem, custom: Partial<DisplayUnits> = {}): DisplayUnits {
+  if (system !== 'custom') return UNIT_SYSTEMS[system] ?? BASE_UNITS;
+  return {
+    flowrate: getUnit('flowrate', custom.flowrate).id,
+    pressure: getUnit('pressure', custom.pressure).id,
+    temperature: getUnit('temperature', custom.temperature).id,
+  };
+}
@@ -0,0 +1,72 @@
+import type { ColumnAssignment } from '@/lib/columnMapping';
+import { DEFAULT_PARSE_OPTIONS, ParseOptions } from '@/lib/parsing';
+import type { RowEdit, RowStatus } from '@/lib/validation';
+
+export type QueueStatus = 'pending' | 'processing' | 'needsMapping' | 'ready' | 'uploading' | 'done' | 'failed';
+
+/**
+ * A file dropped together with others. Each one is parsed, mapped and
+ * validated on its own and becomes its own upload. Only the outcome is kept:
+ * the file is read again the same way when it is uploaded, and the content
+ * hash confirms the rows are still the ones that were checked.
+ */
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueStatus;
+  mapping: ColumnAssignment[];
+  /** Import profile the mapping came from, if any. */
+  profileName: string | null;
+  /** Options the file was read and validated with. */
+  options: ParseOptions;
+  /** Worksheet of a spreadsheet, or record array of a JSON document, picked on review; null for the first. */
+  sheetName: string | null;
+  recordSelector: string | null;
+  /** Corrections made on review, applied again when the file is read for upload. */
+  edits: RowEdit[];
+  /** Number of rows that passed validation; these are what gets uploaded. */
+  rowCount: number;
+  counts: Record<RowStatus, number> | null;
+  contentHash: string | null;
+  /** Earlier upload with the same content hash; uploading again needs confirmation. */
+  duplicateOf: { id: string; filename: string; created_at: string } | null;
+  /** Percentage of batches staged while uploading. */
+  progress: number | null;
+  uploadId: string | null;
+  error: string | null;
+}
+
+export function createQueueItem(file: File): QueueItem {
+  return {
+    id: crypto.randomUUID(),
+    file,
+    status: 'pending',
+    mapping: [],
+    profileName: null,
+    options: DEFAULT_PARSE_OPTIONS,
+    sheetName: null,
+    recordSelector: null,
+    edits: [],
+    rowCount: 0,
+    counts: null,
+    contentHash: null,
+    duplicateOf: null,
+    progress: null,
+    uploadId: null,
+    error: null,
+  };
+}
+
+export function updateQueueItem(queue: QueueItem[], id: string, patch: Partial<QueueItem>) {
+  return queue.map((item) => (item.id === id ? { ...item, ...patch } : item));
+}
+
+/** Items that can be uploaded without further input; known duplicates are confirmed one by one. */
+export function readyItems(queue: QueueItem[]) {
+  return queue.filter((item) => item.status === 'ready' && item.rowCount > 0 && !item.duplicateOf);
+}
+
+/** True while a file is being read or uploaded, when the worker and network must not be shared. */
+export function isQueueBusy(queue: QueueItem[]) {
+  return queue.some((item) => item.status === 'processing' || item.status === 'uploading');
+}
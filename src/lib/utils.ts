@@ -4,3 +4,25 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Most rows PostgREST returns for one request. */
+export const MAX_ROWS_PER_REQUEST = 1000;
+
+/** Every row of a query, requested one `from`–`to` range at a time until a page comes back short. */
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await fetchPage(from, from + MAX_ROWS_PER_REQUEST - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+}
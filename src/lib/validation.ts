@@ -0,0 +1,309 @@
+import Papa from 'papaparse';
+import {
+  ColumnAssignment,
+  NUMERIC_FIELDS,
+  ParameterTarget,
+  ParsedRow,
+  RawTable,
+  TARGET_FIELDS,
+  TargetField,
+  columnOf,
+  parameterKeyOf,
+  parseRow,
+} from '@/lib/columnMapping';
+import {
+  DEFAULT_PARSE_OPTIONS,
+  NumberParseOptions,
+  ParseOptions,
+  isUnreadableNumber,
+  isUnreadableTimestamp,
+  parseNumber,
+} from '@/lib/parsing';
+import { ProcessParameter, isOutOfRange } from '@/lib/processParameters';
+import { ATMOSPHERE_BAR } from '@/lib/units';
+
+export type RowStatus = 'ok' | 'warning' | 'error';
+
+export type IssueCode =
+  | 'missingName'
+  | 'missingType'
+  | 'nonNumeric'
+  | 'negativeAbsolutePressure'
+  | 'belowAbsoluteZero'
+  | 'duplicateName'
+  | 'invalidTimestamp'
+  | 'outOfRange';
+
+export interface ValidationIssue {
+  code: IssueCode;
+  severity: Exclude<RowStatus, 'ok'>;
+  field: TargetField | ParameterTarget;
+  /** The source cell, for reasons that depend on what was typed. */
+  value?: string;
+}
+
+export interface ValidatedRow {
+  /** 1-based row in the source, counting the header and any rows above it. */
+  rowNumber: number;
+  raw: string[];
+  data: ParsedRow;
+  status: RowStatus;
+  issues: ValidationIssue[];
+  /** Changed by hand in the preview after import. */
+  edited?: boolean;
+}
+
+export const ABSOLUTE_ZERO = -273.15;
+
+function isBlankRow(row: string[]) {
+  return row.every((cell) => !cell?.trim());
+}
+
+type ValidationOptions = NumberParseOptions & Pick<ParseOptions, 'headerRowOffset'>;
+
+/** Checks on the parsed values of `fields`; `cell` gives the text to quote in the issue. */
+function valueIssues(
+  data: ParsedRow,
+  fields: TargetField[],
+  cell: (field: TargetField) => string | undefined
+) {
+  const issues: ValidationIssue[] = [];
+  const add = (code: IssueCode, severity: ValidationIssue['severity'], field: TargetField, value?: string) =>
+    issues.push({ code, severity, field, value });
+
+  if (fields.includes('equipment_name') && data.equipment_name === 'Unknown') {
+    add('missingName', 'error', 'equipment_name');
+  }
+  if (fields.includes('equipment_type') && data.equipment_type === 'Unknown') {
+    add('missingType', 'warning', 'equipment_type');
+  }
+  // Pressure is stored as gauge, absolute readings included, so it cannot go below minus one atmosphere.
+  if (fields.includes('pressure') && data.pressure !== null && data.pressure < -ATMOSPHERE_BAR) {
+    add('negativeAbsolutePressure', 'error', 'pressure', cell('pressure'));
+  }
+  if (fields.includes('temperature') && data.temperature !== null && data.temperature < ABSOLUTE_ZERO) {
+    add('belowAbsoluteZero', 'error', 'temperature', cell('temperature'));
+  }
+  return issues;
+}
+
+// With timestamps a name repeats once per reading, so only the same name at the same time is a duplicate.
+function readingKey(data: ParsedRow) {
+  return `${data.equipment_name.toLowerCase()}|${data.reading_time ?? ''}`;
+}
+
+function statusOf(issues: ValidationIssue[]): RowStatus {
+  if (issues.some((issue) => issue.severity === 'error')) return 'error';
+  return issues.length > 0 ? 'warning' : 'ok';
+}
+
+/**
+ * Returns a function that parses and checks one data row at a time, keeping
+ * the state needed across rows (duplicate names). Blank rows give null.
+ * `parameters` supply the expected ranges of mapped process parameters.
+ */
+export function createRowValidator(
+  mapping: ColumnAssignment[],
+  options: ValidationOptions = DEFAULT_PARSE_OPTIONS,
+  parameters: ProcessParameter[] = []
+) {
+  const nameCol = columnOf(mapping, 'equipment_name');
+  const seenNames = new Set<string>();
+  const parameterColumns = mapping.flatMap(({ target }, col) => {
+    const key = parameterKeyOf(target);
+    return key === null ? [] : [{ col, target: target as ParameterTarget, parameter: parameters.find((p) => p.key === key) }];
+  });
+
+  return (raw: string[], index: number): ValidatedRow | null => {
+    if (isBlankRow(raw)) return null;
+
+    const data = parseRow(raw, mapping, options);
+    const cell = (field: TargetField) => raw[columnOf(mapping, field)];
+    const issues = valueIssues(data, ['equipment_name', 'equipment_type'], cell);
+
+    NUMERIC_FIELDS.forEach((field) => {
+      const col = columnOf(mapping, field);
+      if (col >= 0 && isUnreadableNumber(raw[col], options)) {
+        issues.push({ code: 'nonNumeric', severity: 'error', field, value: raw[col] });
+      }
+    });
+    issues.push(...valueIssues(data, NUMERIC_FIELDS, cell));
+
+    const timeCol = columnOf(mapping, 'reading_time');
+    if (timeCol >= 0 && isUnreadableTimestamp(raw[timeCol], options)) {
+      issues.push({ code: 'invalidTimestamp', severity: 'error', field: 'reading_time', value: raw[timeCol] });
+    }
+
+    parameterColumns.forEach(({ col, target, parameter }) => {
+      if (isUnreadableNumber(raw[col], options)) {
+        issues.push({ code: 'nonNumeric', severity: 'error', field: target, value: raw[col] });
+        return;
+      }
+      const value = parseNumber(raw[col], options);
+      if (parameter && value !== null && isOutOfRange(parameter, value)) {
+        issues.push({ code: 'outOfRange', severity: 'warning', field: target, value: raw[col] });
+      }
+    });
+
+    if (data.equipment_name !== 'Unknown') {
+      const key = readingKey(data);
+      if (seenNames.has(key)) {
+        issues.push({ code: 'duplicateName', severity: 'warning', field: 'equipment_name', value: raw[nameCol] });
+      }
+      seenNames.add(key);
+    }
+
+    return { rowNumber: options.headerRowOffset + index + 2, raw, data, status: statusOf(issues), issues };
+  };
+}
+
+/**
+ * Parses and checks every data row. Rows with errors are kept in the result,
+ * so they can be shown and reported, but must not be uploaded.
+ */
+export function validateTable(
+  table: RawTable,
+  mapping: ColumnAssignment[],
+  options: ValidationOptions = DEFAULT_PARSE_OPTIONS,
+  parameters: ProcessParameter[] = []
+): ValidatedRow[] {
+  const validateRow = createRowValidator(mapping, options, parameters);
+  const validated: ValidatedRow[] = [];
+  table.rows.forEach((raw, index) => {
+    const row = validateRow(raw, index);
+    if (row) validated.push(row);
+  });
+  return validated;
+}
+
+/**
+ * Applies a correction made in the preview. Issues of the edited fields are
+ * checked again against the new values, quoting `typed` where given; duplicate
+ * names need `recheckDuplicates` over the whole table afterwards.
+ */
+export function editRow(
+  row: ValidatedRow,
+  changes: Partial<ParsedRow>,
+  typed: Partial<Record<TargetField, string>> = {}
+): ValidatedRow {
+  const data = { ...row.data, ...changes };
+  const edited = Object.keys(changes) as TargetField[];
+  const issues = [
+    ...row.issues.filter(
+      (issue) => issue.code === 'duplicateName' || !edited.includes(issue.field as TargetField)
+    ),
+    ...valueIssues(data, edited, (field) => typed[field] ?? String(data[field] ?? '')),
+  ];
+  return { ...row, data, issues, status: statusOf(issues), edited: true };
+}
+
+/** Marks every repeat of an earlier equipment name again, after rows were edited or removed. */
+export function recheckDuplicates(rows: ValidatedRow[]): ValidatedRow[] {
+  const seenNames = new Set<string>();
+  return rows.map((row) => {
+    const issues = row.issues.filter((issue) => issue.code !== 'duplicateName');
+    if (row.data.equipment_name !== 'Unknown') {
+      const key = readingKey(row.data);
+      if (seenNames.has(key)) {
+        issues.push({ code: 'duplicateName', severity: 'warning', field: 'equipment_name', value: row.data.equipment_name });
+      }
+      seenNames.add(key);
+    }
+    const unchanged =
+      issues.length === row.issues.length && issues.every((issue, index) => issue === row.issues[index]);
+    return unchanged ? row : { ...row, issues, status: statusOf(issues) };
+  });
+}
+
+/** A correction made in the preview, kept so it can be applied again when the file is read anew. */
+export type RowEdit =
+  | {
+      type: 'edit';
+      rowNumbers: number[];
+      changes: Partial<ParsedRow>;
+      typed: Partial<Record<TargetField, string>>;
+    }
+  | { type: 'delete'; rowNumbers: number[] };
+
+/** Applies an edit or deletion to the rows it names, then marks duplicate names again. */
+export function applyRowEdit(rows: ValidatedRow[], edit: RowEdit): ValidatedRow[] {
+  const targets = new Set(edit.rowNumbers);
+  const next =
+    edit.type === 'delete'
+      ? rows.filter((row) => !targets.has(row.rowNumber))
+      : rows.map((row) => (targets.has(row.rowNumber) ? editRow(row, edit.changes, edit.typed) : row));
+  return recheckDuplicates(next);
+}
+
+export function countByStatus(rows: ValidatedRow[]): Record<RowStatus, number> {
+  const counts: Record<RowStatus, number> = { ok: 0, warning: 0, error: 0 };
+  rows.forEach((row) => counts[row.status]++);
+  return counts;
+}
+
+/** Rows that pass validation (warnings included), ready to upload. */
+export function acceptedRows(rows: ValidatedRow[]): ParsedRow[] {
+  return rows.filter((row) => row.status !== 'error').map((row) => row.data);
+}
+
+export function acceptedCount(counts: Record<RowStatus, number>) {
+  return counts.ok + counts.warning;
+}
+
+/** Number of rows without a value, per field. Text fields count as missing when they fell back to "Unknown". */
+export function missingValueCounts(rows: ParsedRow[]): Record<TargetField, number> {
+  const counts = Object.fromEntries(TARGET_FIELDS.map((field) => [field, 0])) as Record<TargetField, number>;
+  rows.forEach((row) => {
+    TARGET_FIELDS.forEach((field) => {
+      if (row[field] === null || row[field] === 'Unknown') counts[field]++;
+    });
+  });
+  return counts;
+}
+
+/** What the preview shows about every validated row while holding only some of them. */
+export interface ValidationSummary {
+  counts: Record<RowStatus, number>;
+  /** Missing values per field among the accepted rows. */
+  missing: Record<TargetField, number>;
+  /** Some row has a reading time, or one that could not be read. */
+  hasReadingTime: boolean;
+  /** Keys of the process parameters with a value in some row. */
+  parameterKeys: string[];
+}
+
+export function summarizeRows(rows: ValidatedRow[]): ValidationSummary {
+  const parameterKeys = new Set<string>();
+  rows.forEach((row) => Object.keys(row.data.extra).forEach((key) => parameterKeys.add(key)));
+  return {
+    counts: countByStatus(rows),
+    missing: missingValueCounts(acceptedRows(rows)),
+    hasReadingTime: rows.some(
+      (row) => row.data.reading_time !== null || row.issues.some((issue) => issue.field === 'reading_time')
+    ),
+    parameterKeys: [...parameterKeys],
+  };
+}
+
+/** The first `limit` rows of each status, in file order, for the preview to show. */
+export function previewRows(rows: ValidatedRow[], limit: number): ValidatedRow[] {
+  const shown: Record<RowStatus, number> = { ok: 0, warning: 0, error: 0 };
+  return rows.filter((row) => shown[row.status]++ < limit);
+}
+
+/** CSV of the rejected rows as they appeared in the source, with the row number and reasons added. */
+export function rejectedRowsCsv(
+  rows: ValidatedRow[],
+  headers: string[],
+  describeIssue: (issue: ValidationIssue) => string
+) {
+  const rejected = rows.filter((row) => row.status === 'error');
+  return Papa.unparse({
+    fields: ['row', ...headers, 'reasons'],
+    data: rejected.map((row) => [
+      row.rowNumber,
+      ...headers.map((_, col) => row.raw[col] ?? ''),
+      row.issues.map(describeIssue).join('; '),
+    ]),
+  });
+}
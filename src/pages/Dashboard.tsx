@@ -15,6 +15,7 @@ import {
   ArrowRight,
 } from 'lucide-react';
 import { format } from 'date-fns';
+import SampleDatasetsPanel from '@/components/onboarding/SampleDatasetsPanel';
 
 interface DashboardStats {
   totalUploads: number;
@@ -47,6 +48,7 @@ export default function Dashboard() {
         .from('uploads')
         .select('*')
         .eq('user_id', user!.id)
+        .is('archived_at', null)
         .order('created_at', { ascending: false })
         .limit(5);
 
@@ -186,6 +188,7 @@ export default function Dashboard() {
                 <Upload className="mr-2 h-4 w-4" />
                 {t('dashboard.uploadNew')}
               </Button>
+              <SampleDatasetsPanel />
             </div>
           ) : (
             <div className="space-y-3">
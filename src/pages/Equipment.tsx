@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Factory, Loader2, Pencil, Search, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import EquipmentDetailsDialog from '@/components/equipment/EquipmentDetailsDialog';
+import { useEquipment } from '@/hooks/use-equipment';
+import { EMPTY_STATS, Equipment as EquipmentItem, EquipmentDetails, equipmentPath, matchesEquipmentSearch } from '@/lib/equipment';
+
+export default function Equipment() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { equipment, stats, loading, saveDetails, deleteEquipment } = useEquipment();
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<EquipmentItem | null>(null);
+
+  const visible = equipment.filter((item) => matchesEquipmentSearch(item, search));
+
+  const handleSave = async (id: string, details: EquipmentDetails) => {
+    try {
+      await saveDetails(id, details);
+      toast.success(t('equipment.saved'));
+    } catch (err) {
+      console.error('Error saving equipment:', err);
+      toast.error(t('equipment.saveFailed'));
+      throw err;
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteEquipment(id);
+      toast.success(t('equipment.deleted'));
+    } catch (err) {
+      console.error('Error deleting equipment:', err);
+      toast.error(t('common.error'));
+    }
+  };
+
+  if (loading) return <div className="flex items-center justify-center h-64"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div><h1 className="text-3xl font-bold">{t('equipment.title')}</h1><p className="text-muted-foreground">{t('equipment.subtitle')}</p></div>
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>{t('equipment.registry')}</CardTitle>
+              <CardDescription>{t('equipment.registryDescription', { count: equipment.length })}</CardDescription>
+            </div>
+            <div className="relative w-full sm:w-64">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder={t('common.search')} className="pl-9" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {equipment.length === 0 ? (
+            <div className="flex flex-col items-center py-12"><Factory className="h-12 w-12 text-muted-foreground/50 mb-4" /><p className="text-muted-foreground">{t('equipment.empty')}</p><Button className="mt-4" onClick={() => navigate('/upload')}>{t('dashboard.uploadNew')}</Button></div>
+          ) : (
+            <div className="rounded-lg border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('equipment.fields.tag')}</TableHead>
+                    <TableHead>{t('equipment.fields.type')}</TableHead>
+                    <TableHead>{t('equipment.fields.area')}</TableHead>
+                    <TableHead>{t('equipment.fields.manufacturer')}</TableHead>
+                    <TableHead>{t('equipment.fields.commissionedOn')}</TableHead>
+                    <TableHead className="text-right">{t('equipment.readings')}</TableHead>
+                    <TableHead className="text-right">{t('equipment.uploads')}</TableHead>
+                    <TableHead>{t('equipment.lastSeen')}</TableHead>
+                    <TableHead className="text-right">{t('history.actions')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((item) => {
+                    const itemStats = stats[item.id] ?? EMPTY_STATS;
+                    return (
+                      <TableRow
+                        key={item.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(equipmentPath(item.tag))}
+                      >
+                        <TableCell className="font-medium">{item.tag}</TableCell>
+                        <TableCell>{item.type ?? '-'}</TableCell>
+                        <TableCell>{item.area ?? '-'}</TableCell>
+                        <TableCell>{item.manufacturer ?? '-'}</TableCell>
+                        <TableCell>{item.commissionedOn ? format(new Date(item.commissionedOn), 'MMM dd, yyyy') : '-'}</TableCell>
+                        <TableCell className="text-right">{itemStats.readingCount}</TableCell>
+                        <TableCell className="text-right">{itemStats.uploadCount}</TableCell>
+                        <TableCell>{itemStats.lastSeenAt ? format(new Date(itemStats.lastSeenAt), 'MMM dd, yyyy HH:mm') : '-'}</TableCell>
+                        <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" title={t('common.edit')} onClick={() => setEditing(item)}><Pencil className="h-4 w-4" /></Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild><Button size="sm" variant="outline" className="text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
+                              <AlertDialogContent><AlertDialogHeader><AlertDialogTitle>{t('common.confirm')}</AlertDialogTitle><AlertDialogDescription>{t('equipment.deleteConfirm', { tag: item.tag })}</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel><AlertDialogAction onClick={() => handleDelete(item.id)}>{t('common.delete')}</AlertDialogAction></AlertDialogFooter></AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <EquipmentDetailsDialog equipment={editing} onClose={() => setEditing(null)} onSave={handleSave} />
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, BarChart3, Factory, Loader2, Pencil } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import EquipmentDetailsDialog from '@/components/equipment/EquipmentDetailsDialog';
+import EquipmentLimitsDialog from '@/components/equipment/EquipmentLimitsDialog';
+import EquipmentReadingsCard from '@/components/equipment/EquipmentReadingsCard';
+import EquipmentStatusCard from '@/components/equipment/EquipmentStatusCard';
+import EquipmentTrendCard from '@/components/equipment/EquipmentTrendCard';
+import { useEquipment, useEquipmentReadings } from '@/hooks/use-equipment';
+import { useMetrics } from '@/hooks/use-metrics';
+import {
+  Equipment,
+  EquipmentDetails,
+  EquipmentLimits,
+  findByTag,
+  latestValue,
+  readingUploads,
+} from '@/lib/equipment';
+
+export default function EquipmentDetail() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { tag = '' } = useParams();
+  const { equipment, loading, saveDetails, saveLimits } = useEquipment();
+  const { metrics } = useMetrics();
+  const asset = findByTag(equipment, tag);
+  const { readings, loading: readingsLoading } = useEquipmentReadings(asset?.id ?? null);
+  const [editing, setEditing] = useState<Equipment | null>(null);
+  const [editingLimits, setEditingLimits] = useState(false);
+
+  const handleSaveDetails = async (id: string, details: EquipmentDetails) => {
+    try {
+      await saveDetails(id, details);
+      toast.success(t('equipment.saved'));
+    } catch (err) {
+      console.error('Error saving equipment:', err);
+      toast.error(t('equipment.saveFailed'));
+      throw err;
+    }
+  };
+
+  const handleSaveLimits = async (id: string, limits: EquipmentLimits) => {
+    try {
+      await saveLimits(id, limits);
+      toast.success(t('equipment.limits.saved'));
+    } catch (err) {
+      console.error('Error saving equipment limits:', err);
+      toast.error(t('equipment.saveFailed'));
+      throw err;
+    }
+  };
+
+  if (loading) return <div className="flex items-center justify-center h-64"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+
+  if (!asset) {
+    return (
+      <div className="flex flex-col items-center py-12 animate-fade-in">
+        <Factory className="h-12 w-12 text-muted-foreground/50 mb-4" />
+        <p className="text-muted-foreground">{t('equipment.notFound', { tag })}</p>
+        <Button className="mt-4" variant="outline" onClick={() => navigate('/equipment')}>{t('equipment.backToList')}</Button>
+      </div>
+    );
+  }
+
+  // Metrics this asset has readings for or limits on.
+  const relevantMetrics = metrics.filter((metric) => latestValue(readings, metric) !== null || asset.limits[metric.id]);
+  const uploads = readingUploads(readings);
+  const details = [asset.type, asset.area, asset.manufacturer].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="-ml-3 mb-2" onClick={() => navigate('/equipment')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {t('equipment.backToList')}
+          </Button>
+          <h1 className="text-3xl font-bold">{asset.tag}</h1>
+          <p className="text-muted-foreground">
+            {details || t('equipment.noDetails')}
+            {asset.commissionedOn && ` · ${t('equipment.fields.commissionedOn')} ${format(new Date(asset.commissionedOn), 'MMM dd, yyyy')}`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setEditing(asset)}>
+          <Pencil className="mr-2 h-4 w-4" />
+          {t('common.edit')}
+        </Button>
+      </div>
+
+      {readingsLoading ? (
+        <div className="flex items-center justify-center h-32"><Loader2 className="h-8 w-8 animate-spin" /></div>
+      ) : (
+        <>
+          <EquipmentStatusCard
+            equipment={asset}
+            readings={readings}
+            metrics={relevantMetrics}
+            onEditLimits={() => setEditingLimits(true)}
+          />
+          {uploads.length > 0 && <EquipmentTrendCard equipment={asset} readings={readings} metrics={relevantMetrics} />}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('equipment.uploadsTitle')}</CardTitle>
+              <CardDescription>{t('equipment.uploadsDescription', { count: uploads.length })}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {uploads.length === 0 ? (
+                <p className="py-8 text-center text-muted-foreground">{t('equipment.noReadings')}</p>
+              ) : (
+                <div className="rounded-lg border overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('history.filename')}</TableHead>
+                        <TableHead>{t('history.uploadDate')}</TableHead>
+                        <TableHead className="text-right">{t('equipment.readings')}</TableHead>
+                        <TableHead className="text-right">{t('history.actions')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {uploads.map((upload) => (
+                        <TableRow key={upload.uploadId}>
+                          <TableCell className="font-medium">
+                            {upload.filename}
+                            {upload.archivedAt && <Badge variant="secondary" className="ml-2">{t('history.archived')}</Badge>}
+                          </TableCell>
+                          <TableCell>{format(new Date(upload.uploadedAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                          <TableCell className="text-right">{upload.readingCount}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => navigate('/visualization', { state: { uploadId: upload.uploadId, equipment: asset.tag } })}
+                            >
+                              <BarChart3 className="mr-2 h-4 w-4" />
+                              {t('equipment.openInVisualization')}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          {readings.length > 0 && <EquipmentReadingsCard equipment={asset} readings={readings} metrics={relevantMetrics} />}
+        </>
+      )}
+
+      <EquipmentDetailsDialog equipment={editing} onClose={() => setEditing(null)} onSave={handleSaveDetails} />
+      {editingLimits && (
+        <EquipmentLimitsDialog
+          equipment={asset}
+          metrics={metrics}
+          onClose={() => setEditingLimits(false)}
+          onSave={handleSaveLimits}
+        />
+      )}
+    </div>
+  );
+}
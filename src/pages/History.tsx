@@ -2,26 +2,30 @@ import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRetentionPolicy } from '@/hooks/use-retention-policy';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { FileText, Trash2, BarChart3, Loader2, Database } from 'lucide-react';
+import { FileText, FilePlus, Trash2, BarChart3, Loader2, Database, ArchiveRestore } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
+import SampleDatasetsPanel from '@/components/onboarding/SampleDatasetsPanel';
 
 export default function History() {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { policy } = useRetentionPolicy();
   const [uploads, setUploads] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => { if (user) fetchUploads(); }, [user]);
 
   const fetchUploads = async () => {
-    const { data } = await supabase.from('uploads').select('*').eq('user_id', user!.id).order('created_at', { ascending: false });
+    const { data } = await supabase.from('uploads').select('*, upload_appends(filename, row_count, created_at)').eq('user_id', user!.id).order('created_at', { ascending: false });
     setUploads(data || []);
     setLoading(false);
   };
@@ -32,28 +36,49 @@ export default function History() {
     fetchUploads();
   };
 
+  const restoreUpload = async (id: string) => {
+    await supabase.from('uploads').update({ archived_at: null }).eq('id', id);
+    toast.success(t('history.restoreSuccess'));
+    fetchUploads();
+  };
+
+  const appendLog = (appends: { filename: string; row_count: number; created_at: string }[]) =>
+    [...appends]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((entry) => `${format(new Date(entry.created_at), 'MMM dd, yyyy HH:mm')}: ${entry.filename} (${t('history.appendedRows', { count: entry.row_count })})`)
+      .join('\n');
+
+  const retentionText = [
+    t(`history.retention.${policy.mode}`, { count: policy.value }),
+    policy.mode !== 'forever' && t(policy.archive ? 'history.retention.archived' : 'history.retention.deleted'),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
   if (loading) return <div className="flex items-center justify-center h-64"><Loader2 className="h-8 w-8 animate-spin" /></div>;
 
   return (
     <div className="space-y-6 animate-fade-in">
       <div><h1 className="text-3xl font-bold">{t('history.title')}</h1><p className="text-muted-foreground">{t('history.subtitle')}</p></div>
       <Card>
-        <CardHeader><CardTitle>{t('history.title')}</CardTitle><CardDescription>{t('history.keepLast5')}</CardDescription></CardHeader>
+        <CardHeader><CardTitle>{t('history.title')}</CardTitle><CardDescription>{retentionText}</CardDescription></CardHeader>
         <CardContent>
           {uploads.length === 0 ? (
-            <div className="flex flex-col items-center py-12"><Database className="h-12 w-12 text-muted-foreground/50 mb-4" /><p className="text-muted-foreground">{t('history.noHistory')}</p><Button className="mt-4" onClick={() => navigate('/upload')}>{t('dashboard.uploadNew')}</Button></div>
+            <div className="flex flex-col items-center py-12"><Database className="h-12 w-12 text-muted-foreground/50 mb-4" /><p className="text-muted-foreground">{t('history.noHistory')}</p><Button className="mt-4" onClick={() => navigate('/upload')}>{t('dashboard.uploadNew')}</Button><SampleDatasetsPanel /></div>
           ) : (
             <Table>
               <TableHeader><TableRow><TableHead>{t('history.filename')}</TableHead><TableHead>{t('history.uploadDate')}</TableHead><TableHead className="text-right">{t('history.records')}</TableHead><TableHead className="text-right">{t('history.actions')}</TableHead></TableRow></TableHeader>
               <TableBody>
                 {uploads.map((upload) => (
                   <TableRow key={upload.id}>
-                    <TableCell className="font-medium flex items-center gap-2"><FileText className="h-4 w-4 text-primary" />{upload.filename}</TableCell>
+                    <TableCell className="font-medium flex items-center gap-2"><FileText className="h-4 w-4 text-primary" />{upload.filename}{upload.archived_at && <Badge variant="secondary">{t('history.archived')}</Badge>}{upload.upload_appends?.length > 0 && <Badge variant="outline" title={appendLog(upload.upload_appends)}>{t('history.appended', { count: upload.upload_appends.length })}</Badge>}</TableCell>
                     <TableCell>{format(new Date(upload.created_at), 'MMM dd, yyyy HH:mm')}</TableCell>
                     <TableCell className="text-right">{upload.record_count}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
                         <Button size="sm" variant="outline" onClick={() => navigate('/visualization', { state: { uploadId: upload.id } })}><BarChart3 className="h-4 w-4" /></Button>
+                        <Button size="sm" variant="outline" title={t('history.append')} onClick={() => navigate('/upload', { state: { appendTo: { id: upload.id, filename: upload.filename } } })}><FilePlus className="h-4 w-4" /></Button>
+                        {upload.archived_at && <Button size="sm" variant="outline" title={t('history.restore')} onClick={() => restoreUpload(upload.id)}><ArchiveRestore className="h-4 w-4" /></Button>}
                         <AlertDialog>
                           <AlertDialogTrigger asChild><Button size="sm" variant="outline" className="text-destructive"><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger>
                           <AlertDialogContent><AlertDialogHeader><AlertDialogTitle>{t('common.confirm')}</AlertDialogTitle><AlertDialogDescription>{t('history.deleteConfirm')}</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel><AlertDialogAction onClick={() => deleteUpload(upload.id)}>{t('common.delete')}</AlertDialogAction></AlertDialogFooter></AlertDialogContent>
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { useRetentionPolicy } from '@/hooks/use-retention-policy';
+import ProcessParametersCard from '@/components/settings/ProcessParametersCard';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -10,6 +13,14 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { DisplayUnits, Quantity, UNITS, UnitSystem } from '@/lib/units';
+import {
+  MAX_RETENTION_VALUE,
+  RETENTION_MODES,
+  RetentionCandidate,
+  RetentionPolicy,
+  clampRetentionValue,
+} from '@/lib/retention';
 import {
   Globe,
   User,
@@ -29,6 +40,8 @@ import {
   Atom,
   FileText,
   AlertTriangle,
+  Ruler,
+  Archive,
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -52,9 +65,16 @@ const languages = [
 
 type Theme = 'light' | 'dark' | 'system';
 
+const unitSystems: UnitSystem[] = ['metric', 'imperial', 'custom'];
+const quantities: Quantity[] = ['flowrate', 'pressure', 'temperature'];
+
+const isQuantity = (column: string): column is Quantity => quantities.includes(column as Quantity);
+
 export default function Settings() {
   const { t, i18n } = useTranslation();
   const { user } = useAuth();
+  const { unitSystem, displayUnits, setUnitPreference, convert, withUnit } = useUnits();
+  const { policy, savePolicy, pendingRemovals } = useRetentionPolicy();
   
   // Profile state
   const [fullName, setFullName] = useState('');
@@ -69,6 +89,11 @@ export default function Settings() {
   const [uploadAlerts, setUploadAlerts] = useState(true);
   const [weeklyDigest, setWeeklyDigest] = useState(false);
   
+  // Retention policy being edited, and the uploads it would remove
+  const [retentionDraft, setRetentionDraft] = useState<RetentionPolicy>(policy);
+  const [retentionPreview, setRetentionPreview] = useState<RetentionCandidate[]>([]);
+  const [retentionSaving, setRetentionSaving] = useState(false);
+
   // Data stats
   const [dataStats, setDataStats] = useState({
     totalUploads: 0,
@@ -85,6 +110,20 @@ export default function Settings() {
     }
   }, [user]);
 
+  useEffect(() => {
+    setRetentionDraft(policy);
+  }, [policy]);
+
+  useEffect(() => {
+    let cancelled = false;
+    pendingRemovals(0, retentionDraft).then((candidates) => {
+      if (!cancelled) setRetentionPreview(candidates);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [retentionDraft, pendingRemovals]);
+
   // Apply theme
   useEffect(() => {
     const root = window.document.documentElement;
@@ -146,6 +185,32 @@ export default function Settings() {
     }
   };
 
+  const handleUnitSystemChange = async (system: UnitSystem, custom?: Partial<DisplayUnits>) => {
+    const { error } = await setUnitPreference(system, custom);
+    if (error) {
+      toast.error(t('settings.unitsSaveFailed'));
+    } else {
+      toast.success(t('settings.saved'));
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    setRetentionSaving(true);
+    try {
+      await savePolicy(retentionDraft);
+      toast.success(t('settings.saved'));
+    } catch {
+      toast.error(t('settings.retention.saveFailed'));
+    } finally {
+      setRetentionSaving(false);
+    }
+  };
+
+  const retentionChanged =
+    retentionDraft.mode !== policy.mode ||
+    retentionDraft.value !== policy.value ||
+    retentionDraft.archive !== policy.archive;
+
   const handleExportData = async () => {
     if (!user) return;
     
@@ -171,10 +236,12 @@ export default function Settings() {
     
     const headers = ['equipment_name', 'equipment_type', 'flowrate', 'pressure', 'temperature', 'created_at'];
     const rows = data.map(row => 
-      headers.map(h => row[h] ?? '').join(',')
+      headers.map(h => (isQuantity(h) ? convert(h, row[h]) : row[h]) ?? '').join(',')
     );
+    // Values are exported in the display units, so the header says which ones.
+    const headerRow = headers.map(h => (isQuantity(h) ? withUnit(h, h) : h));
     
-    return [headers.join(','), ...rows].join('\n');
+    return [headerRow.join(','), ...rows].join('\n');
   };
 
   const downloadFile = (content: string, filename: string, type: string) => {
@@ -323,6 +390,125 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Unit Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ruler className="h-5 w-5 text-primary" />
+            {t('settings.units')}
+          </CardTitle>
+          <CardDescription>{t('settings.unitsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-3">
+            {unitSystems.map((system) => (
+              <Button
+                key={system}
+                variant={unitSystem === system ? 'default' : 'outline'}
+                onClick={() => handleUnitSystemChange(system, system === 'custom' ? displayUnits : undefined)}
+              >
+                {t(`settings.unitSystems.${system}`)}
+              </Button>
+            ))}
+          </div>
+          {unitSystem === 'custom' && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              {quantities.map((quantity) => (
+                <div key={quantity} className="space-y-2">
+                  <Label>{t(`table.${quantity}`)}</Label>
+                  <Select
+                    value={displayUnits[quantity]}
+                    onValueChange={(unit) => handleUnitSystemChange('custom', { ...displayUnits, [quantity]: unit })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {UNITS[quantity].map((unit) => (
+                        <SelectItem key={unit.id} value={unit.id}>
+                          {unit.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Retention Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5 text-primary" />
+            {t('settings.retention.title')}
+          </CardTitle>
+          <CardDescription>{t('settings.retention.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-3">
+            {RETENTION_MODES.map((mode) => (
+              <Button
+                key={mode}
+                variant={retentionDraft.mode === mode ? 'default' : 'outline'}
+                onClick={() => setRetentionDraft({ ...retentionDraft, mode })}
+              >
+                {t(`settings.retention.modes.${mode}`)}
+              </Button>
+            ))}
+          </div>
+          {retentionDraft.mode !== 'forever' && (
+            <div className="max-w-xs space-y-2">
+              <Label htmlFor="retentionValue">{t(`settings.retention.valueLabel.${retentionDraft.mode}`)}</Label>
+              <Input
+                id="retentionValue"
+                type="number"
+                min={1}
+                max={MAX_RETENTION_VALUE}
+                value={retentionDraft.value}
+                onChange={(e) =>
+                  setRetentionDraft({ ...retentionDraft, value: clampRetentionValue(Number(e.target.value)) })
+                }
+              />
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-base">{t('settings.retention.archive')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.retention.archiveHint')}</p>
+            </div>
+            <Switch
+              checked={retentionDraft.archive}
+              onCheckedChange={(archive) => setRetentionDraft({ ...retentionDraft, archive })}
+            />
+          </div>
+          {retentionPreview.length > 0 && (
+            <div className="flex gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm">
+              <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+              <div>
+                <p>
+                  {t(retentionDraft.archive ? 'settings.retention.willArchive' : 'settings.retention.willDelete', {
+                    count: retentionPreview.length,
+                  })}
+                </p>
+                <p className="text-muted-foreground">
+                  {retentionPreview.map((upload) => upload.filename).join(', ')}
+                </p>
+              </div>
+            </div>
+          )}
+          <Button onClick={handleSaveRetention} disabled={!retentionChanged || retentionSaving} className="gap-2">
+            <Save className="h-4 w-4" />
+            {t('settings.saveChanges')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Process Parameters */}
+      <ProcessParametersCard />
+
       {/* Notification Preferences */}
       <Card>
         <CardHeader>
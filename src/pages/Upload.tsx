@@ -1,120 +1,449 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
-import { Upload as UploadIcon, FileUp, Check, AlertCircle, Loader2 } from 'lucide-react';
-import Papa from 'papaparse';
-
-interface ParsedRow {
-  equipment_name: string;
-  equipment_type: string;
-  flowrate: number | null;
-  pressure: number | null;
-  temperature: number | null;
+import { Upload as UploadIcon, FileUp, FilePlus, ClipboardPaste, AlertCircle, Loader2, History } from 'lucide-react';
+import ColumnMappingCard from '@/components/upload/ColumnMappingCard';
+import ImportOptionsPanel from '@/components/upload/ImportOptionsPanel';
+import SheetPickerCard from '@/components/upload/SheetPickerCard';
+import JsonSelectorCard from '@/components/upload/JsonSelectorCard';
+import DataPreviewCard from '@/components/upload/DataPreviewCard';
+import DuplicateUploadDialog, { DuplicateUpload } from '@/components/upload/DuplicateUploadDialog';
+import UploadQueueCard from '@/components/upload/UploadQueueCard';
+import PasteDataPanel from '@/components/upload/PasteDataPanel';
+import { useCommitUpload } from '@/hooks/use-commit-upload';
+import { useImportProfiles } from '@/hooks/use-import-profiles';
+import { useRetentionPolicy } from '@/hooks/use-retention-policy';
+import { useProcessParameters } from '@/hooks/use-process-parameters';
+import { ValidatedTable, useImportWorker } from '@/hooks/use-import-worker';
+import {
+  ColumnAssignment,
+  RawTable,
+  detectColumnMapping,
+  missingRequiredFields,
+} from '@/lib/columnMapping';
+import { ImportProfile, findMatchingProfile, mappingFromProfile } from '@/lib/importProfiles';
+import {
+  DEFAULT_PARSE_OPTIONS,
+  NumberFormat,
+  ParseOptions,
+  detectDelimiter,
+  detectNumberFormat,
+  numberFormatExample,
+  pastedFile,
+  separatorsForLocale,
+  tableFromRows,
+} from '@/lib/parsing';
+import { SHEET_NUMBER_FORMAT, Workbook, isSpreadsheetFile, readWorkbook, sheetRows } from '@/lib/spreadsheet';
+import { findRecordArray, isJsonFile, parseJsonDocument, recordsToRows } from '@/lib/jsonImport';
+import { RowEdit, acceptedCount } from '@/lib/validation';
+import { RetentionCandidate, retentionOverflow } from '@/lib/retention';
+import { formatBytes } from '@/lib/utils';
+import { UploadCheckpoint, clearCheckpoint, loadCheckpoint, matchesCheckpoint } from '@/lib/batchInsert';
+import { QueueItem, createQueueItem, isQueueBusy, readyItems, updateQueueItem } from '@/lib/uploadQueue';
+
+// CSV files are parsed and validated in the worker, which also keeps their
+// rows until they are staged; workbooks and JSON are read on the page.
+const MAX_CSV_SIZE = 500 * 1024 * 1024;
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+function readsInWorker(file: File) {
+  return !isSpreadsheetFile(file.name) && !isJsonFile(file.name);
+}
+
+/** Upload chosen in History to append the next file to. */
+interface AppendTarget {
+  id: string;
+  filename: string;
 }
 
 export default function Upload() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
+  const { profiles, saveProfile, deleteProfile } = useImportProfiles();
+  const {
+    progress,
+    parseCsv: parseCsvInWorker,
+    validate,
+    editRows: editRowsInWorker,
+    rejectedRows,
+    readAcceptedRows,
+    cancel: cancelWorker,
+  } = useImportWorker();
+  const { policy: retention, pendingRemovals } = useRetentionPolicy();
+  const { commitUpload } = useCommitUpload();
+  const { parameters } = useProcessParameters();
   
   const [isDragging, setIsDragging] = useState(false);
   const [file, setFile] = useState<File | null>(null);
-  const [parsedData, setParsedData] = useState<ParsedRow[]>([]);
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [jsonDocument, setJsonDocument] = useState<unknown>(null);
+  const [recordSelector, setRecordSelector] = useState('$');
+  // Delimiter of pasted text; clipboard tables are tab-separated whatever a profile says.
+  const [pastedDelimiter, setPastedDelimiter] = useState<string | null>(null);
+  const [sourceRows, setSourceRows] = useState<string[][]>([]);
+  const [table, setTable] = useState<RawTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnAssignment[]>([]);
+  const [options, setOptions] = useState<ParseOptions>(() => ({
+    ...DEFAULT_PARSE_OPTIONS,
+    ...separatorsForLocale(i18n.language),
+  }));
+  // Separators picked by hand are kept; otherwise each file's own number format is used.
+  const [numberFormatChosen, setNumberFormatChosen] = useState(false);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [suggestedProfile, setSuggestedProfile] = useState<ImportProfile | null>(null);
+  const [validation, setValidation] = useState<ValidatedTable | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [duplicate, setDuplicate] = useState<DuplicateUpload | null>(null);
+  const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
+  const [queueDuplicate, setQueueDuplicate] = useState<QueueItem | null>(null);
   const [parsing, setParsing] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<UploadCheckpoint | null>(null);
+  const [removals, setRemovals] = useState<RetentionCandidate[]>([]);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  /** Queue item loaded into the single-file steps for review. */
+  const [activeQueueId, setActiveQueueId] = useState<string | null>(null);
+  const [queueRemovals, setQueueRemovals] = useState<RetentionCandidate[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [appendTarget, setAppendTarget] = useState<AppendTarget | null>(location.state?.appendTo ?? null);
+
+  const selectedProfile = profiles.find((p) => p.id === selectedProfileId) ?? null;
+  const contentHash = validation?.contentHash ?? null;
+  const rowCount = validation ? acceptedCount(validation.summary.counts) : 0;
+  useEffect(() => {
+    setPendingCheckpoint(user ? loadCheckpoint(user.id) : null);
+  }, [user]);
+
+  // commit_upload applies the retention policy, so show what it will remove before confirming.
+  // Appending creates no upload and removes nothing.
+  const hasPreview = validation !== null;
+  const appending = appendTarget !== null;
+  useEffect(() => {
+    if (!hasPreview || appending) {
+      setRemovals([]);
+      return;
+    }
+    pendingRemovals(1).then(setRemovals);
+  }, [hasPreview, appending, pendingRemovals]);
+
+  const findDuplicate = useCallback(
+    async (hash: string) => {
+      if (!user) return null;
+      const { data } = await supabase
+        .from('uploads')
+        .select('id, filename, created_at')
+        .eq('user_id', user.id)
+        .eq('content_hash', hash)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return data;
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    if (!contentHash) {
+      setDuplicate(null);
+      return;
+    }
+    findDuplicate(contentHash).then(setDuplicate);
+  }, [contentHash, findDuplicate]);
 
-  const parseCSV = (file: File) => {
+  const queueReadyCount = readyItems(queue).length;
+  useEffect(() => {
+    if (queueReadyCount === 0) {
+      setQueueRemovals([]);
+      return;
+    }
+    pendingRemovals(queueReadyCount).then(setQueueRemovals);
+  }, [queueReadyCount, pendingRemovals]);
+
+  // CSV rows stay in the worker; the page only holds a sample of them in `table`.
+  const rowsInWorker = !!file && !workbook && jsonDocument === null;
+
+  const localeNumberFormat = useMemo(() => separatorsForLocale(i18n.language), [i18n.language]);
+
+  /**
+   * The number format the file's cells are written in, or the interface language's when they
+   * do not tell; null when a profile or the user has set one.
+   */
+  const detectedNumberFormat = useCallback(
+    (parsed: RawTable, profile: ImportProfile | null): NumberFormat | null =>
+      profile || numberFormatChosen ? null : detectNumberFormat(parsed.rows) ?? localeNumberFormat,
+    [numberFormatChosen, localeNumberFormat]
+  );
+
+  const loadTable = (parsed: RawTable, profile: ImportProfile | null) => {
+    setError(null);
+    setTable(parsed);
+    const detected = detectedNumberFormat(parsed, profile);
+    if (
+      detected &&
+      (detected.decimalSeparator !== options.decimalSeparator || detected.thousandsSeparator !== options.thousandsSeparator)
+    ) {
+      setOptions((current) => ({ ...current, ...detected }));
+      // Falling back to the language's format is not worth a notice.
+      if (detected !== localeNumberFormat) {
+        toast.info(t('upload.numberFormatDetected', { example: numberFormatExample(detected) }));
+      }
+    }
+    if (profile) {
+      setMapping(mappingFromProfile(profile, parsed.headers));
+    } else {
+      setMapping(detectColumnMapping(parsed.headers, parameters));
+      setSuggestedProfile(findMatchingProfile(profiles, parsed.headers));
+    }
+  };
+
+  const loadRows = (rows: string[][], parseOptions: ParseOptions, profile: ImportProfile | null) => {
+    setSourceRows(rows);
+    setSuggestedProfile(null);
+
+    const parsed = tableFromRows(rows, parseOptions.headerRowOffset);
+    if (!parsed) {
+      setTable(null);
+      setError(t('upload.invalidFormat'));
+      return;
+    }
+    loadTable(parsed, profile);
+  };
+
+  const parseCSV = async (file: File, parseOptions: ParseOptions, profile: ImportProfile | null) => {
     setParsing(true);
     setError(null);
+    setSuggestedProfile(null);
 
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        try {
-          const data = results.data as Record<string, string>[];
-          
-          // Map CSV columns to our format (flexible column naming)
-          const mapped: ParsedRow[] = data.map((row) => {
-            const keys = Object.keys(row);
-            
-            // Find columns by partial match
-            const findColumn = (patterns: string[]) => {
-              return keys.find((k) => 
-                patterns.some((p) => k.toLowerCase().includes(p.toLowerCase()))
-              );
-            };
-
-            const nameCol = findColumn(['equipment name', 'name', 'equipment']);
-            const typeCol = findColumn(['type', 'equipment type']);
-            const flowCol = findColumn(['flowrate', 'flow rate', 'flow']);
-            const pressCol = findColumn(['pressure', 'press']);
-            const tempCol = findColumn(['temperature', 'temp']);
-
-            return {
-              equipment_name: nameCol ? row[nameCol]?.trim() || 'Unknown' : 'Unknown',
-              equipment_type: typeCol ? row[typeCol]?.trim() || 'Unknown' : 'Unknown',
-              flowrate: flowCol ? parseFloat(row[flowCol]) || null : null,
-              pressure: pressCol ? parseFloat(row[pressCol]) || null : null,
-              temperature: tempCol ? parseFloat(row[tempCol]) || null : null,
-            };
-          }).filter((row) => row.equipment_name !== 'Unknown' || row.equipment_type !== 'Unknown');
-
-          if (mapped.length === 0) {
-            setError(t('upload.invalidFormat'));
-            setParsedData([]);
-          } else {
-            setParsedData(mapped);
-          }
-        } catch (err) {
-          setError(t('upload.invalidFormat'));
-          setParsedData([]);
-        }
-        setParsing(false);
-      },
-      error: () => {
-        setError(t('upload.invalidFormat'));
-        setParsing(false);
-      },
-    });
+    try {
+      const parsed = await parseCsvInWorker(file, parseOptions);
+      if (parsed) loadTable(parsed.table, profile);
+    } catch (err) {
+      console.error('Error parsing CSV:', err);
+      setError(t('upload.invalidFormat'));
+    }
+    setParsing(false);
   };
 
-  const handleFile = (file: File) => {
-    if (!file.name.endsWith('.csv')) {
+  const parseSpreadsheet = async (file: File, parseOptions: ParseOptions, profile: ImportProfile | null) => {
+    setParsing(true);
+    setError(null);
+
+    try {
+      const book = await readWorkbook(file);
+      const firstSheet = book.SheetNames[0];
+      setWorkbook(book);
+      setSheetName(firstSheet);
+      loadRows(sheetRows(book, firstSheet), parseOptions, profile);
+    } catch (err) {
+      console.error('Error reading workbook:', err);
       setError(t('upload.invalidFormat'));
+    }
+    setParsing(false);
+  };
+
+  const loadJsonRecords = (document: unknown, selector: string, profile: ImportProfile | null) => {
+    setRecordSelector(selector);
+
+    const rows = recordsToRows(document, selector);
+    if (!rows) {
+      setSourceRows([]);
+      setTable(null);
+      setError(t('upload.invalidSelector'));
       return;
     }
-    if (file.size > 10 * 1024 * 1024) {
-      setError(t('upload.fileTooLarge'));
+    // Flattened records always start with their header row.
+    loadRows(rows, { ...options, headerRowOffset: 0 }, profile);
+  };
+
+  const parseJson = async (file: File, profile: ImportProfile | null) => {
+    setParsing(true);
+    setError(null);
+
+    try {
+      const document = parseJsonDocument(await file.text());
+      setJsonDocument(document);
+      loadJsonRecords(document, findRecordArray(document) ?? '$', profile);
+    } catch (err) {
+      console.error('Error reading JSON file:', err);
+      setError(t('upload.invalidFormat'));
+    }
+    setParsing(false);
+  };
+
+  const selectSheet = (name: string) => {
+    setSheetName(name);
+    loadRows(sheetRows(workbook!, name), options, selectedProfile);
+  };
+
+  const selectHeaderRow = (headerRowOffset: number) => {
+    const nextOptions = { ...options, headerRowOffset };
+    setOptions(nextOptions);
+    loadRows(sourceRows, nextOptions, selectedProfile);
+  };
+
+  const changeOptions = (next: ParseOptions) => {
+    if (next.decimalSeparator !== options.decimalSeparator || next.thousandsSeparator !== options.thousandsSeparator) {
+      setNumberFormatChosen(true);
+    }
+    setOptions(next);
+  };
+
+  const selectProfile = (profile: ImportProfile | null) => {
+    setSelectedProfileId(profile?.id ?? null);
+    if (profile) setOptions(profile.options);
+  };
+
+  const applyProfile = (profile: ImportProfile) => {
+    selectProfile(profile);
+    if (workbook) {
+      loadRows(sourceRows, profile.options, profile);
+    } else if (jsonDocument !== null) {
+      loadJsonRecords(jsonDocument, recordSelector, profile);
+    } else if (file) {
+      parseCSV(file, pastedDelimiter ? { ...profile.options, delimiter: pastedDelimiter } : profile.options, profile);
+    }
+  };
+
+  const handleSaveProfile = async (name: string) => {
+    if (!table) return;
+    try {
+      const profile = await saveProfile(name, table.headers, mapping, options);
+      if (profile) setSelectedProfileId(profile.id);
+      toast.success(t('upload.profileSaved'));
+    } catch (err) {
+      console.error('Error saving import profile:', err);
+      toast.error(t('upload.profileSaveError'));
+    }
+  };
+
+  const handleDeleteProfile = async (profile: ImportProfile) => {
+    try {
+      await deleteProfile(profile.id);
+      setSelectedProfileId(null);
+      toast.success(t('upload.profileDeleted'));
+    } catch (err) {
+      console.error('Error deleting import profile:', err);
+      toast.error(t('common.error'));
+    }
+  };
+
+  const confirmMapping = async () => {
+    if (!table) return;
+    setParsing(true);
+    setEditing(false);
+
+    try {
+      const readOptions = workbook ? { ...options, ...SHEET_NUMBER_FORMAT } : options;
+      const validated = await validate(mapping, readOptions, parameters, rowsInWorker ? undefined : table);
+      if (validated === null) return;
+      if (validated.rows.length === 0) {
+        setError(t('upload.invalidFormat'));
+        setValidation(null);
+      } else {
+        setValidation(validated);
+      }
+      if (activeQueueId) {
+        const patch = await validatedQueuePatch(validated, {
+          mapping,
+          profileName: selectedProfile?.name ?? null,
+          options: readOptions,
+          sheetName: workbook ? sheetName : null,
+          recordSelector: jsonDocument !== null ? recordSelector : null,
+          edits: [],
+        });
+        setQueue((current) => updateQueueItem(current, activeQueueId, patch));
+      }
+    } catch (err) {
+      console.error('Error validating rows:', err);
+      setError(t('upload.invalidFormat'));
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const fileError = (file: File) => {
+    if (!file.name.endsWith('.csv') && !isSpreadsheetFile(file.name) && !isJsonFile(file.name)) {
+      return t('upload.invalidFormat');
+    }
+    const maxSize = file.name.endsWith('.csv') ? MAX_CSV_SIZE : MAX_FILE_SIZE;
+    if (file.size > maxSize) {
+      return t('upload.fileTooLarge', { size: formatBytes(maxSize) });
+    }
+    return null;
+  };
+
+  // Edits in the preview change what gets uploaded; the worker applies them and hashes the rows again.
+  // A queued file keeps its edits, so they are made again when it is read for upload.
+  const editValidatedRows = async (edit: RowEdit) => {
+    if (activeQueueId) {
+      setQueue((current) =>
+        current.map((item) => (item.id === activeQueueId ? { ...item, edits: [...item.edits, edit] } : item))
+      );
+    }
+    setEditing(true);
+    // Null when a later edit superseded this one; its answer covers both.
+    const edited = await editRowsInWorker(edit);
+    if (!edited) return;
+    setEditing(false);
+    setValidation(edited);
+    if (activeQueueId) {
+      const patch = await validatedQueuePatch(edited, {});
+      setQueue((current) => updateQueueItem(current, activeQueueId, patch));
+    }
+  };
+
+  const loadRejectedRows = async () => (await rejectedRows()) ?? [];
+
+  // Staged batches come from the worker, which holds the validated rows of the file being uploaded.
+  const readWorkerRows = async (start: number, end: number) => {
+    const rows = await readAcceptedRows(start, end);
+    if (!rows) throw new Error('Validated rows are no longer available');
+    return rows;
+  };
+
+  const handleFile = (file: File) => {
+    const problem = fileError(file);
+    if (problem) {
+      setError(problem);
       return;
     }
     setFile(file);
-    parseCSV(file);
+    setPastedDelimiter(null);
+    if (isSpreadsheetFile(file.name)) {
+      parseSpreadsheet(file, options, selectedProfile);
+    } else if (isJsonFile(file.name)) {
+      parseJson(file, selectedProfile);
+    } else {
+      parseCSV(file, options, selectedProfile);
+    }
   };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  // Pasted text is always read as CSV, whatever the dataset name looks like.
+  const handlePaste = (datasetName: string, text: string) => {
+    const pasted = pastedFile(text, datasetName);
+    const delimiter = detectDelimiter(text);
+    setFile(pasted);
+    setPastedDelimiter(delimiter);
+    parseCSV(pasted, { ...options, delimiter }, selectedProfile);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      handleFile(droppedFile);
-    }
-  }, []);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -127,94 +456,306 @@ export default function Upload() {
   }, []);
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      handleFile(selectedFile);
-    }
+    handleFiles(Array.from(e.target.files ?? []));
+    // Lets the same files be selected again after they were removed from the queue.
+    e.target.value = '';
+  };
+
+  const resuming = !!file && matchesCheckpoint(pendingCheckpoint, file, rowCount, contentHash);
+
+  // Ask first when the same rows were uploaded before, unless an interrupted upload is being finished
+  // or the rows are appended, where replacing is not an option.
+  const requestUpload = () => {
+    if (duplicate && !resuming && !appendTarget) setDuplicateDialogOpen(true);
+    else handleUpload();
   };
 
-  const handleUpload = async () => {
-    if (!user || !file || parsedData.length === 0) return;
+  /**
+   * Stages and commits the rows; `replaceUploadId` is deleted in the same transaction.
+   * With an append target the rows are merged into that upload instead.
+   */
+  const handleUpload = async (replaceUploadId?: string) => {
+    if (!user || !file || rowCount === 0) return;
 
+    setDuplicateDialogOpen(false);
     setUploading(true);
+    setUploadProgress(0);
 
     try {
-      // Calculate summary statistics
-      const flowrates = parsedData.filter((d) => d.flowrate !== null).map((d) => d.flowrate!);
-      const pressures = parsedData.filter((d) => d.pressure !== null).map((d) => d.pressure!);
-      const temperatures = parsedData.filter((d) => d.temperature !== null).map((d) => d.temperature!);
-
-      const avg = (arr: number[]) => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
-
-      const typeDistribution: Record<string, number> = {};
-      parsedData.forEach((d) => {
-        typeDistribution[d.equipment_type] = (typeDistribution[d.equipment_type] || 0) + 1;
-      });
-
-      const summary = {
-        avgFlowrate: avg(flowrates),
-        avgPressure: avg(pressures),
-        avgTemperature: avg(temperatures),
-        typeDistribution,
+      const uploadId = await commitUpload(
+        {
+          file,
+          rowCount,
+          readRows: readWorkerRows,
+          mapping,
+          contentHash,
+          replaceUploadId,
+          appendToUploadId: appendTarget?.id,
+          resumeFrom: resuming ? pendingCheckpoint : null,
+        },
+        setUploadProgress
+      );
+
+      setPendingCheckpoint(null);
+      toast.success(
+        appendTarget
+          ? t('upload.append.success', { count: rowCount, filename: appendTarget.filename })
+          : t('upload.success')
+      );
+      if (activeQueueId) {
+        setQueue((current) => updateQueueItem(current, activeQueueId, { status: 'done', uploadId, error: null }));
+        resetUpload();
+      } else {
+        navigate('/visualization', { state: { uploadId } });
+      }
+    } catch (err) {
+      console.error('Upload error:', err);
+      setPendingCheckpoint(loadCheckpoint(user.id));
+      toast.error(t('upload.error'));
+    } finally {
+      setUploading(false);
+      setUploadProgress(null);
+    }
+  };
+
+  // A single file goes straight into the steps; several, or any added to an existing queue, are queued.
+  // Appending takes exactly one file.
+  const handleFiles = (files: File[]) => {
+    if (appendTarget && files.length > 1) {
+      setError(t('upload.append.singleFile'));
+    } else if (files.length === 1 && (queue.length === 0 || appendTarget)) {
+      handleFile(files[0]);
+    } else if (files.length > 0) {
+      setQueue((current) => [
+        ...current,
+        ...files.map((queued) => {
+          const item = createQueueItem(queued);
+          const problem = fileError(queued);
+          return problem ? { ...item, status: 'failed' as const, error: problem } : item;
+        }),
+      ]);
+    }
+  };
+
+  const validatedQueuePatch = useCallback(
+    async (validated: ValidatedTable, reading: Partial<QueueItem>): Promise<Partial<QueueItem>> => {
+      const rowCount = acceptedCount(validated.summary.counts);
+      const existing = await findDuplicate(validated.contentHash);
+      return {
+        ...reading,
+        status: rowCount > 0 ? 'ready' : 'failed',
+        error: rowCount > 0 ? null : t('upload.invalidFormat'),
+        rowCount,
+        counts: validated.summary.counts,
+        contentHash: validated.contentHash,
+        duplicateOf: existing ?? null,
       };
+    },
+    [findDuplicate, t]
+  );
 
-      // Delete old uploads if more than 5
-      const { data: existingUploads } = await supabase
-        .from('uploads')
-        .select('id')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+  /**
+   * Reads a queued file into a table; CSV rows stay in the worker. Spreadsheets
+   * and JSON documents use the named sheet or record array, else the first one.
+   */
+  const readQueuedFile = useCallback(
+    async (
+      queued: File,
+      parseOptions: ParseOptions,
+      sheet: string | null,
+      selector: string | null
+    ): Promise<RawTable | null> => {
+      if (isSpreadsheetFile(queued.name)) {
+        const book = await readWorkbook(queued);
+        return tableFromRows(sheetRows(book, sheet ?? book.SheetNames[0]), parseOptions.headerRowOffset);
+      }
+      if (isJsonFile(queued.name)) {
+        const document = parseJsonDocument(await queued.text());
+        const rows = recordsToRows(document, selector ?? findRecordArray(document) ?? '$');
+        return rows && tableFromRows(rows, 0);
+      }
+      return (await parseCsvInWorker(queued, parseOptions))?.table ?? null;
+    },
+    [parseCsvInWorker]
+  );
 
-      if (existingUploads && existingUploads.length >= 5) {
-        const toDelete = existingUploads.slice(4).map((u) => u.id);
-        await supabase.from('uploads').delete().in('id', toDelete);
+  /** Reads, maps and validates a queued file; files whose columns cannot be matched wait for review. */
+  const processQueueItem = useCallback(
+    async (item: QueueItem) => {
+      const patch = (changes: Partial<QueueItem>) => setQueue((current) => updateQueueItem(current, item.id, changes));
+      patch({ status: 'processing', error: null });
+
+      const spreadsheet = isSpreadsheetFile(item.file.name);
+      const json = isJsonFile(item.file.name);
+      const read = (parseOptions: ParseOptions) => readQueuedFile(item.file, parseOptions, null, null);
+
+      try {
+        let source = await read(selectedProfile?.options ?? options);
+        const profile = selectedProfile ?? (source && findMatchingProfile(profiles, source.headers));
+        // A profile recognised by its headers is read again with its own delimiter and header row.
+        if (
+          source &&
+          profile &&
+          profile !== selectedProfile &&
+          !json &&
+          (profile.options.delimiter !== options.delimiter || profile.options.headerRowOffset !== options.headerRowOffset)
+        ) {
+          source = await read(profile.options);
+        }
+        if (!source) {
+          patch({ status: 'failed', error: t('upload.invalidFormat') });
+          return;
+        }
+
+        const parseOptions = profile?.options ?? options;
+        const itemMapping = profile
+          ? mappingFromProfile(profile, source.headers)
+          : detectColumnMapping(source.headers, parameters);
+        const profileName = profile?.name ?? null;
+        if (missingRequiredFields(itemMapping).length > 0) {
+          patch({ status: 'needsMapping', mapping: itemMapping, profileName });
+          return;
+        }
+
+        const itemOptions = {
+          ...parseOptions,
+          ...(spreadsheet ? SHEET_NUMBER_FORMAT : detectedNumberFormat(source, profile)),
+        };
+        const validated = await validate(itemMapping, itemOptions, parameters, readsInWorker(item.file) ? undefined : source);
+        if (!validated) {
+          patch({ status: 'failed', error: t('upload.invalidFormat') });
+          return;
+        }
+        patch(
+          await validatedQueuePatch(validated, {
+            mapping: itemMapping,
+            profileName,
+            options: itemOptions,
+            sheetName: null,
+            recordSelector: null,
+            edits: [],
+          })
+        );
+      } catch (err) {
+        console.error('Error reading queued file:', err);
+        patch({ status: 'failed', error: t('upload.invalidFormat') });
       }
+    },
+    [
+      selectedProfile,
+      options,
+      profiles,
+      parameters,
+      readQueuedFile,
+      validate,
+      detectedNumberFormat,
+      validatedQueuePatch,
+      t,
+    ]
+  );
 
-      // Create upload record
-      const { data: uploadData, error: uploadError } = await supabase
-        .from('uploads')
-        .insert({
-          user_id: user.id,
-          filename: file.name,
-          record_count: parsedData.length,
-          summary,
-        })
-        .select()
-        .single();
-
-      if (uploadError) throw uploadError;
-
-      // Insert equipment data
-      const equipmentRecords = parsedData.map((row) => ({
-        upload_id: uploadData.id,
-        user_id: user.id,
-        equipment_name: row.equipment_name,
-        equipment_type: row.equipment_type,
-        flowrate: row.flowrate,
-        pressure: row.pressure,
-        temperature: row.temperature,
-      }));
-
-      const { error: dataError } = await supabase
-        .from('equipment_data')
-        .insert(equipmentRecords);
-
-      if (dataError) throw dataError;
-
-      toast.success(t('upload.success'));
-      navigate('/visualization', { state: { uploadId: uploadData.id } });
+  // Queued files are read one at a time, and only while no file is open in the
+  // single-file steps, since both use the same worker.
+  useEffect(() => {
+    if (file || isQueueBusy(queue)) return;
+    const next = queue.find((item) => item.status === 'pending');
+    if (next) processQueueItem(next);
+  }, [queue, file, processQueueItem]);
+
+  const uploadQueueItem = async (item: QueueItem, replaceUploadId?: string) => {
+    const patch = (changes: Partial<QueueItem>) => setQueue((current) => updateQueueItem(current, item.id, changes));
+    patch({ status: 'uploading', progress: 0, error: null });
+
+    try {
+      // The queue keeps no rows, so the file is read and checked again; it has to give the same rows.
+      const source = await readQueuedFile(item.file, item.options, item.sheetName, item.recordSelector);
+      const validated =
+        source &&
+        (await validate(item.mapping, item.options, parameters, readsInWorker(item.file) ? undefined : source, item.edits));
+      if (validated?.contentHash !== item.contentHash) {
+        patch({ status: 'needsMapping', progress: null, error: t('upload.queue.changed') });
+        return false;
+      }
+
+      const uploadId = await commitUpload(
+        {
+          file: item.file,
+          rowCount: item.rowCount,
+          readRows: readWorkerRows,
+          mapping: item.mapping,
+          contentHash: item.contentHash,
+          replaceUploadId,
+          resumeFrom: matchesCheckpoint(pendingCheckpoint, item.file, item.rowCount, item.contentHash) ? pendingCheckpoint : null,
+        },
+        (progress) => patch({ progress })
+      );
+      setPendingCheckpoint(null);
+      patch({ status: 'done', uploadId, progress: null });
+      return true;
     } catch (err) {
       console.error('Upload error:', err);
-      toast.error(t('upload.error'));
-    } finally {
-      setUploading(false);
+      setPendingCheckpoint(user ? loadCheckpoint(user.id) : null);
+      patch({ status: 'ready', progress: null, error: t('upload.error') });
+      return false;
+    }
+  };
+
+  const uploadQueued = async (item: QueueItem, replaceUploadId?: string) => {
+    setQueueDuplicate(null);
+    if (await uploadQueueItem(item, replaceUploadId)) toast.success(t('upload.success'));
+    else toast.error(t('upload.error'));
+  };
+
+  // Like a single file, a queued one that repeats an earlier upload asks first.
+  const requestQueuedUpload = (item: QueueItem) => {
+    if (item.duplicateOf) setQueueDuplicate(item);
+    else uploadQueued(item);
+  };
+
+  // Known duplicates are not part of readyItems, so they are never uploaded without confirmation.
+  const uploadAllQueued = async () => {
+    const items = readyItems(queue);
+    let uploaded = 0;
+    for (const item of items) {
+      if (await uploadQueueItem(item)) uploaded++;
+    }
+    if (uploaded === items.length) {
+      toast.success(t('upload.queue.allUploaded', { count: uploaded }));
+    } else {
+      toast.error(t('upload.queue.someFailed', { failed: items.length - uploaded, count: items.length }));
     }
   };
 
+  const reviewQueueItem = (item: QueueItem) => {
+    setActiveQueueId(item.id);
+    handleFile(item.file);
+  };
+
+  const discardCheckpoint = async () => {
+    if (!pendingCheckpoint) return;
+    await supabase.from('upload_staging').delete().eq('session_id', pendingCheckpoint.sessionId);
+    clearCheckpoint();
+    setPendingCheckpoint(null);
+  };
+
   const resetUpload = () => {
+    cancelWorker();
     setFile(null);
-    setParsedData([]);
+    setWorkbook(null);
+    setSheetName('');
+    setJsonDocument(null);
+    setRecordSelector('$');
+    setPastedDelimiter(null);
+    setSourceRows([]);
+    setTable(null);
+    setMapping([]);
+    setSuggestedProfile(null);
+    setValidation(null);
+    setEditing(false);
+    setActiveQueueId(null);
     setError(null);
+    // The next file's number format is detected afresh.
+    if (!numberFormatChosen && !selectedProfile) setOptions((current) => ({ ...current, ...localeNumberFormat }));
   };
 
   return (
@@ -224,45 +765,126 @@ export default function Upload() {
         <p className="text-muted-foreground mt-1">{t('upload.subtitle')}</p>
       </div>
 
+      {/* Interrupted Upload */}
+      {pendingCheckpoint && !uploading && (
+        <Card className="border-primary/50">
+          <CardContent className="flex flex-wrap items-center gap-4 pt-6">
+            <History className="h-6 w-6 text-primary" />
+            <div className="flex-1">
+              <p className="font-medium">{t('upload.interruptedUpload')}</p>
+              <p className="text-sm text-muted-foreground">
+                {t('upload.interruptedUploadHint', {
+                  file: pendingCheckpoint.fileName,
+                  saved: Math.min(pendingCheckpoint.committedBatches * pendingCheckpoint.batchSize, pendingCheckpoint.totalRows),
+                  total: pendingCheckpoint.totalRows,
+                })}
+              </p>
+            </div>
+            <Button variant="outline" onClick={discardCheckpoint}>
+              {t('upload.discardUpload')}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Append Target */}
+      {appendTarget && (
+        <Card className="border-primary/50">
+          <CardContent className="flex flex-wrap items-center gap-4 pt-6">
+            <FilePlus className="h-6 w-6 text-primary" />
+            <div className="flex-1">
+              <p className="font-medium">{t('upload.append.title', { filename: appendTarget.filename })}</p>
+              <p className="text-sm text-muted-foreground">{t('upload.append.hint')}</p>
+            </div>
+            <Button variant="outline" onClick={() => setAppendTarget(null)} disabled={uploading}>
+              {t('upload.append.uploadAsNew')}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Upload Queue */}
+      {queue.length > 0 && !file && !appendTarget && (
+        <UploadQueueCard
+          queue={queue}
+          busy={isQueueBusy(queue)}
+          removals={queueRemovals}
+          queuedRemovals={readyItems(queue).slice(0, retentionOverflow(retention, queueReadyCount))}
+          archiveRemovals={retention.archive}
+          onReview={reviewQueueItem}
+          onUpload={requestQueuedUpload}
+          onUploadAll={uploadAllQueued}
+          onRemove={(item) => setQueue((current) => current.filter((queued) => queued.id !== item.id))}
+          onOpen={(item) => navigate('/visualization', { state: { uploadId: item.uploadId } })}
+          onClear={() => setQueue([])}
+        />
+      )}
+
       {/* Upload Zone */}
       {!file && (
         <Card>
-          <CardContent className="pt-6">
-            <div
-              onDrop={handleDrop}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              className={`drop-zone flex flex-col items-center justify-center gap-4 p-12 text-center transition-all ${
-                isDragging ? 'active' : ''
-              }`}
-            >
-              <div className="flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
-                <FileUp className="h-8 w-8 text-primary" />
-              </div>
-              <div>
-                <p className="text-lg font-medium">{t('upload.dragDrop')}</p>
-                <p className="text-muted-foreground">{t('upload.or')}</p>
-              </div>
-              <label>
-                <input
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileInput}
-                  className="hidden"
-                />
-                <Button variant="outline" className="cursor-pointer" asChild>
-                  <span>
-                    <UploadIcon className="mr-2 h-4 w-4" />
-                    {t('upload.browse')}
-                  </span>
-                </Button>
-              </label>
-              <div className="text-sm text-muted-foreground">
-                <p>{t('upload.supportedFormats')}</p>
-                <p>{t('upload.maxSize')}</p>
-                <p className="mt-2 text-xs">{t('upload.expectedColumns')}</p>
-              </div>
-            </div>
+          <CardContent className="space-y-6 pt-6">
+            <ImportOptionsPanel
+              profiles={profiles}
+              selectedProfileId={selectedProfileId}
+              onProfileChange={selectProfile}
+              onDeleteProfile={handleDeleteProfile}
+              options={options}
+              onOptionsChange={changeOptions}
+            />
+            <Tabs defaultValue="file">
+              <TabsList>
+                <TabsTrigger value="file">
+                  <FileUp className="mr-2 h-4 w-4" />
+                  {t('upload.paste.fileTab')}
+                </TabsTrigger>
+                <TabsTrigger value="paste">
+                  <ClipboardPaste className="mr-2 h-4 w-4" />
+                  {t('upload.paste.tab')}
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="file">
+                <div
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  className={`drop-zone flex flex-col items-center justify-center gap-4 p-12 text-center transition-all ${
+                    isDragging ? 'active' : ''
+                  }`}
+                >
+                  <div className="flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
+                    <FileUp className="h-8 w-8 text-primary" />
+                  </div>
+                  <div>
+                    <p className="text-lg font-medium">{t('upload.dragDrop')}</p>
+                    <p className="text-muted-foreground">{t('upload.or')}</p>
+                  </div>
+                  <label>
+                    <input
+                      type="file"
+                      accept=".csv,.xlsx,.xls,.json,.ndjson,.jsonl"
+                      multiple={!appendTarget}
+                      onChange={handleFileInput}
+                      className="hidden"
+                    />
+                    <Button variant="outline" className="cursor-pointer" asChild>
+                      <span>
+                        <UploadIcon className="mr-2 h-4 w-4" />
+                        {t('upload.browse')}
+                      </span>
+                    </Button>
+                  </label>
+                  <div className="text-sm text-muted-foreground">
+                    <p>{t('upload.supportedFormats')}</p>
+                    <p>{t('upload.maxSize')}</p>
+                    <p className="mt-2 text-xs">{t('upload.expectedColumns')}</p>
+                  </div>
+                </div>
+              </TabsContent>
+              <TabsContent value="paste">
+                <PasteDataPanel onSubmit={handlePaste} />
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
       )}
@@ -286,86 +908,110 @@ export default function Upload() {
       {/* Loading State */}
       {parsing && (
         <Card>
-          <CardContent className="flex items-center justify-center gap-4 py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-            <p className="text-lg">{t('upload.processing')}</p>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Data Preview */}
-      {parsedData.length > 0 && !parsing && (
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <div>
-                <CardTitle className="flex items-center gap-2">
-                  <Check className="h-5 w-5 text-primary" />
-                  {t('upload.preview')}
-                </CardTitle>
-                <CardDescription>
-                  {parsedData.length} {t('upload.recordsFound')}
-                </CardDescription>
-              </div>
-              <div className="flex gap-2">
-                <Button variant="outline" onClick={resetUpload}>
+          <CardContent className="space-y-4 py-12">
+            <div className="flex items-center justify-center gap-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-lg">{t('upload.processing')}</p>
+            </div>
+            {progress && (
+              <div className="mx-auto max-w-md space-y-3 text-center">
+                {progress.totalBytes > 0 && <Progress value={(progress.bytesRead / progress.totalBytes) * 100} />}
+                <p className="text-sm text-muted-foreground">
+                  {t(progress.phase === 'parsing' ? 'upload.rowsParsed' : 'upload.rowsValidated', {
+                    count: progress.rows,
+                    rows: progress.rows.toLocaleString(),
+                  })}
+                  {progress.totalBytes > 0 &&
+                    ` • ${t('upload.bytesRead', {
+                      read: formatBytes(progress.bytesRead),
+                      total: formatBytes(progress.totalBytes),
+                    })}`}
+                </p>
+                <Button variant="outline" size="sm" onClick={resetUpload}>
                   {t('common.cancel')}
                 </Button>
-                <Button onClick={handleUpload} disabled={uploading}>
-                  {uploading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      {t('common.loading')}
-                    </>
-                  ) : (
-                    <>
-                      <UploadIcon className="mr-2 h-4 w-4" />
-                      {t('upload.confirmUpload')}
-                    </>
-                  )}
-                </Button>
               </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="rounded-lg border overflow-auto max-h-96">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>{t('table.equipmentName')}</TableHead>
-                    <TableHead>{t('table.type')}</TableHead>
-                    <TableHead className="text-right">{t('table.flowrate')}</TableHead>
-                    <TableHead className="text-right">{t('table.pressure')}</TableHead>
-                    <TableHead className="text-right">{t('table.temperature')}</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {parsedData.slice(0, 10).map((row, index) => (
-                    <TableRow key={index}>
-                      <TableCell className="font-medium">{row.equipment_name}</TableCell>
-                      <TableCell>{row.equipment_type}</TableCell>
-                      <TableCell className="text-right">
-                        {row.flowrate?.toFixed(2) ?? '-'}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {row.pressure?.toFixed(2) ?? '-'}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {row.temperature?.toFixed(2) ?? '-'}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-            {parsedData.length > 10 && (
-              <p className="mt-4 text-center text-sm text-muted-foreground">
-                {t('table.showing')} 10 {t('table.of')} {parsedData.length} {t('table.entries')}
-              </p>
             )}
           </CardContent>
         </Card>
       )}
+
+      {/* Sheet Picker */}
+      {workbook && !parsing && !validation && (
+        <SheetPickerCard
+          sheetNames={workbook.SheetNames}
+          selectedSheet={sheetName}
+          onSheetChange={selectSheet}
+          rows={sourceRows}
+          headerRowOffset={options.headerRowOffset}
+          onHeaderRowChange={selectHeaderRow}
+        />
+      )}
+
+      {/* JSON Record Selector */}
+      {jsonDocument !== null && !parsing && !validation && (
+        <JsonSelectorCard
+          selector={recordSelector}
+          recordCount={table?.rows.length ?? null}
+          onSelectorChange={(selector) => loadJsonRecords(jsonDocument, selector, selectedProfile)}
+        />
+      )}
+
+      {/* Column Mapping */}
+      {file && table && !validation && !parsing && !error && (
+        <ColumnMappingCard
+          fileName={file.name}
+          table={table}
+          mapping={mapping}
+          parameters={parameters}
+          onMappingChange={setMapping}
+          onConfirm={confirmMapping}
+          onCancel={resetUpload}
+          activeProfile={selectedProfile}
+          suggestedProfile={suggestedProfile?.id !== selectedProfileId ? suggestedProfile : null}
+          onApplyProfile={applyProfile}
+          onSaveProfile={handleSaveProfile}
+        />
+      )}
+
+      {/* Data Preview */}
+      {validation && table && file && !parsing && (
+        <DataPreviewCard
+          fileName={file.name}
+          headers={table.headers}
+          rows={validation.rows}
+          summary={validation.summary}
+          parameters={parameters}
+          onEdit={editValidatedRows}
+          loadRejectedRows={loadRejectedRows}
+          uploading={uploading}
+          editing={editing}
+          uploadProgress={uploadProgress}
+          resuming={resuming}
+          appendTo={appendTarget?.filename ?? null}
+          removals={removals}
+          archiveRemovals={retention.archive}
+          onUpload={requestUpload}
+          onEditMapping={() => setValidation(null)}
+          onCancel={resetUpload}
+        />
+      )}
+
+      <DuplicateUploadDialog
+        duplicate={duplicateDialogOpen ? duplicate : null}
+        onClose={() => setDuplicateDialogOpen(false)}
+        onOpenExisting={(upload) => navigate('/visualization', { state: { uploadId: upload.id } })}
+        onUploadAnyway={() => handleUpload()}
+        onReplace={(upload) => handleUpload(upload.id)}
+      />
+
+      <DuplicateUploadDialog
+        duplicate={queueDuplicate?.duplicateOf ?? null}
+        onClose={() => setQueueDuplicate(null)}
+        onOpenExisting={(upload) => navigate('/visualization', { state: { uploadId: upload.id } })}
+        onUploadAnyway={() => queueDuplicate && uploadQueued(queueDuplicate)}
+        onReplace={(upload) => queueDuplicate && uploadQueued(queueDuplicate, upload.id)}
+      />
     </div>
   );
 }
@@ -1,18 +1,39 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUnits } from '@/contexts/UnitsContext';
 import { supabase } from '@/integrations/supabase/client';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { FileText, Download, Loader2, Database } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FileText, Download, Loader2, Database, SlidersHorizontal } from 'lucide-react';
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement, PointElement, LineElement } from 'chart.js';
-import { Bar, Pie, Scatter } from 'react-chartjs-2';
+import { Bar, Pie } from 'react-chartjs-2';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import { Quantity, unitLabel } from '@/lib/units';
+import { useMetrics } from '@/hooks/use-metrics';
+import { Metric, metricAverage, metricValue } from '@/lib/metrics';
+import TimeSeriesCard from '@/components/visualization/TimeSeriesCard';
+import DataTableCard from '@/components/visualization/DataTableCard';
+import ScatterCard from '@/components/visualization/ScatterCard';
+import CrossFilterBar from '@/components/visualization/CrossFilterBar';
+import { useCrossFilterStats } from '@/hooks/use-cross-filter-stats';
+import { CrossFilter, NO_CROSS_FILTER, isCrossFiltered, matchesCrossFilter, toggleType } from '@/lib/crossFilter';
+import { metricColumn } from '@/lib/dataTable';
+import { fetchAllRows } from '@/lib/utils';
+import SampleDatasetsPanel from '@/components/onboarding/SampleDatasetsPanel';
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, ArcElement, PointElement, LineElement);
 
@@ -22,6 +43,8 @@ interface EquipmentData {
   flowrate: number | null;
   pressure: number | null;
   temperature: number | null;
+  reading_time: string | null;
+  extra: Json;
 }
 
 interface Upload {
@@ -29,12 +52,26 @@ interface Upload {
   filename: string;
   record_count: number;
   summary: any;
+  units: Partial<Record<Quantity, string>> | null;
   created_at: string;
 }
 
+const QUANTITIES: Quantity[] = ['flowrate', 'pressure', 'temperature'];
+
+const TYPE_COLORS = ['hsl(153, 100%, 17%)', 'hsl(153, 80%, 30%)', 'hsl(153, 60%, 45%)', 'hsl(153, 40%, 60%)', 'hsl(153, 30%, 75%)'];
+const UNSELECTED_TYPE_COLOR = 'hsl(153, 10%, 90%)';
+
+const AVERAGE_LABEL_KEYS: Record<Quantity, string> = {
+  flowrate: 'visualization.avgFlowrate',
+  pressure: 'visualization.avgPressure',
+  temperature: 'visualization.avgTemperature',
+};
+
 export default function Visualization() {
   const { t } = useTranslation();
   const { user } = useAuth();
+  const { withUnit } = useUnits();
+  const { metrics, metricLabel, formatValue } = useMetrics();
   const location = useLocation();
   const navigate = useNavigate();
   
@@ -43,12 +80,19 @@ export default function Visualization() {
   const [data, setData] = useState<EquipmentData[]>([]);
   const [loading, setLoading] = useState(true);
   const [generatingPdf, setGeneratingPdf] = useState(false);
+  // Metrics shown in the stat cards, time series, table and report; the scatter plot picks its own pair.
+  const [shownMetricIds, setShownMetricIds] = useState<string[]>(QUANTITIES);
+  // Selections in the type distribution and scatter plot, applied to every other view.
+  const [crossFilter, setCrossFilter] = useState<CrossFilter>(NO_CROSS_FILTER);
+  // Rows of a dataset that was switched away from while still loading are dropped.
+  const dataRequestRef = useRef(0);
 
   useEffect(() => {
     if (user) fetchUploads();
   }, [user]);
 
   useEffect(() => {
+    setCrossFilter(NO_CROSS_FILTER);
     if (selectedUpload) fetchData(selectedUpload);
   }, [selectedUpload]);
 
@@ -58,40 +102,68 @@ export default function Visualization() {
       .select('*')
       .eq('user_id', user!.id)
       .order('created_at', { ascending: false });
-    setUploads(uploadsData || []);
+    setUploads((uploadsData || []) as Upload[]);
     if (!selectedUpload && uploadsData?.[0]) {
       setSelectedUpload(uploadsData[0].id);
     }
     setLoading(false);
   };
 
+  // The scatter plot and the report need every row, not just the first page PostgREST returns.
   const fetchData = async (uploadId: string) => {
-    const { data: equipmentData } = await supabase
-      .from('equipment_data')
-      .select('*')
-      .eq('upload_id', uploadId);
-    setData(equipmentData || []);
+    const request = ++dataRequestRef.current;
+    try {
+      const equipmentData = await fetchAllRows((from, to) =>
+        supabase
+          .from('equipment_data')
+          .select('equipment_name, equipment_type, flowrate, pressure, temperature, reading_time, extra')
+          .eq('upload_id', uploadId)
+          .order('row_index')
+          .range(from, to)
+      );
+      if (request === dataRequestRef.current) setData(equipmentData);
+    } catch (err) {
+      console.error('Error fetching equipment data:', err);
+      if (request === dataRequestRef.current) setData([]);
+    }
   };
 
   const currentUpload = uploads.find((u) => u.id === selectedUpload);
   const summary = currentUpload?.summary;
+  const sourceUnits = QUANTITIES
+    .filter((q) => currentUpload?.units?.[q])
+    .map((q) => `${t(`table.${q}`)}: ${unitLabel(q, currentUpload!.units![q])}`)
+    .join(' · ');
 
-  const typeData = summary?.typeDistribution ? {
-    labels: Object.keys(summary.typeDistribution),
-    datasets: [{
-      data: Object.values(summary.typeDistribution),
-      backgroundColor: ['hsl(153, 100%, 17%)', 'hsl(153, 80%, 30%)', 'hsl(153, 60%, 45%)', 'hsl(153, 40%, 60%)', 'hsl(153, 30%, 75%)'],
-    }],
-  } : null;
+  // Counts and averages under a filter come from the database, like the data table's rows.
+  const filtered = isCrossFiltered(crossFilter);
+  const shownMetrics = useMemo(() => metrics.filter((m) => shownMetricIds.includes(m.id)), [metrics, shownMetricIds]);
+  const filterStats = useCrossFilterStats(filtered ? selectedUpload : null, crossFilter, shownMetrics);
+  const totalCount = currentUpload?.record_count ?? 0;
 
-  const scatterData = data.length > 0 ? {
+  // The pie only narrows to the scatter selection; its own picks are highlighted instead.
+  const typeDistribution: Record<string, number> | undefined = crossFilter.region
+    ? filterStats?.typeDistribution
+    : summary?.typeDistribution;
+  const typeLabels = Object.keys(typeDistribution ?? {});
+  const typeData = typeDistribution ? {
+    labels: typeLabels,
     datasets: [{
-      label: `${t('table.pressure')} vs ${t('table.flowrate')}`,
-      data: data.filter(d => d.pressure && d.flowrate).map(d => ({ x: d.flowrate!, y: d.pressure! })),
-      backgroundColor: 'hsl(153, 100%, 17%)',
+      data: Object.values(typeDistribution),
+      backgroundColor: typeLabels.map((type, index) =>
+        crossFilter.types.length === 0 || crossFilter.types.includes(type) ? TYPE_COLORS[index % TYPE_COLORS.length] : UNSELECTED_TYPE_COLOR
+      ),
     }],
   } : null;
 
+  const toggleMetric = (metric: Metric, shown: boolean) =>
+    setShownMetricIds(shown ? [...shownMetricIds, metric.id] : shownMetricIds.filter((id) => id !== metric.id));
+
+  const averageTitle = (metric: Metric) =>
+    'quantity' in metric
+      ? withUnit(t(AVERAGE_LABEL_KEYS[metric.quantity]), metric.quantity)
+      : t('visualization.averageOf', { name: metricLabel(metric) });
+
   const generatePdf = async () => {
     setGeneratingPdf(true);
     try {
@@ -101,19 +173,20 @@ export default function Visualization() {
       doc.setFontSize(12);
       doc.text(`Generated: ${new Date().toLocaleString()}`, 20, 30);
       doc.text(`File: ${currentUpload?.filename}`, 20, 38);
+      if (sourceUnits) doc.text(`Source units: ${sourceUnits}`, 20, 44);
       
       doc.setFontSize(14);
       doc.text('Summary Statistics', 20, 52);
       doc.setFontSize(10);
-      doc.text(`Total Equipment: ${data.length}`, 20, 62);
-      doc.text(`Avg Flowrate: ${summary?.avgFlowrate?.toFixed(2) || '-'}`, 20, 70);
-      doc.text(`Avg Pressure: ${summary?.avgPressure?.toFixed(2) || '-'}`, 20, 78);
-      doc.text(`Avg Temperature: ${summary?.avgTemperature?.toFixed(2) || '-'}`, 20, 86);
+      doc.text(`Total Equipment: ${totalCount}`, 20, 62);
+      shownMetrics.forEach((metric, index) => {
+        doc.text(`Avg ${metricLabel(metric)}: ${formatValue(metric, metricAverage(summary, metric))}`, 20, 70 + index * 8);
+      });
 
       autoTable(doc, {
-        startY: 100,
-        head: [['Equipment Name', 'Type', 'Flowrate', 'Pressure', 'Temperature']],
-        body: data.slice(0, 50).map(d => [d.equipment_name, d.equipment_type, d.flowrate?.toFixed(2) || '-', d.pressure?.toFixed(2) || '-', d.temperature?.toFixed(2) || '-']),
+        startY: 78 + shownMetrics.length * 8,
+        head: [['Equipment Name', 'Type', ...shownMetrics.map(metricLabel)]],
+        body: data.slice(0, 50).map(d => [d.equipment_name, d.equipment_type, ...shownMetrics.map(m => formatValue(m, metricValue(d, m)))]),
       });
 
       doc.save(`equipment-report-${Date.now()}.pdf`);
@@ -135,6 +208,12 @@ export default function Visualization() {
         <h2 className="text-xl font-semibold">{t('visualization.noDataSelected')}</h2>
         <p className="text-muted-foreground mt-2">{t('visualization.selectDataset')}</p>
         <Button className="mt-4" onClick={() => navigate('/upload')}>{t('dashboard.uploadNew')}</Button>
+        <SampleDatasetsPanel
+          onLoaded={(uploadId) => {
+            setSelectedUpload(uploadId);
+            fetchUploads();
+          }}
+        />
       </div>
     );
   }
@@ -145,8 +224,33 @@ export default function Visualization() {
         <div>
           <h1 className="text-3xl font-bold">{t('visualization.title')}</h1>
           <p className="text-muted-foreground">{t('visualization.subtitle')}</p>
+          {sourceUnits && (
+            <p className="text-xs text-muted-foreground mt-1">{t('visualization.sourceUnits')}: {sourceUnits}</p>
+          )}
         </div>
         <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <SlidersHorizontal className="h-4 w-4" />
+                <span className="ml-2 hidden sm:inline">{t('visualization.parameters')}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>{t('visualization.shownParameters')}</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {metrics.map((metric) => (
+                <DropdownMenuCheckboxItem
+                  key={metric.id}
+                  checked={shownMetricIds.includes(metric.id)}
+                  onCheckedChange={(checked) => toggleMetric(metric, checked)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {metricLabel(metric)}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Select value={selectedUpload || ''} onValueChange={setSelectedUpload}>
             <SelectTrigger className="w-[200px]"><SelectValue placeholder="Select dataset" /></SelectTrigger>
             <SelectContent>
@@ -160,38 +264,44 @@ export default function Visualization() {
         </div>
       </div>
 
+      {filtered && filterStats && (
+        <CrossFilterBar filter={crossFilter} onChange={setCrossFilter} matching={filterStats.count} total={totalCount} />
+      )}
+
       {/* Stats */}
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        <Card><CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground">{t('visualization.totalCount')}</CardTitle></CardHeader><CardContent><p className="text-2xl font-bold">{data.length}</p></CardContent></Card>
-        <Card><CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground">{t('visualization.avgFlowrate')}</CardTitle></CardHeader><CardContent><p className="text-2xl font-bold">{summary?.avgFlowrate?.toFixed(2) || '-'}</p></CardContent></Card>
-        <Card><CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground">{t('visualization.avgPressure')}</CardTitle></CardHeader><CardContent><p className="text-2xl font-bold">{summary?.avgPressure?.toFixed(2) || '-'}</p></CardContent></Card>
-        <Card><CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground">{t('visualization.avgTemperature')}</CardTitle></CardHeader><CardContent><p className="text-2xl font-bold">{summary?.avgTemperature?.toFixed(2) || '-'}</p></CardContent></Card>
+        <Card><CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground">{t('visualization.totalCount')}</CardTitle></CardHeader><CardContent><p className="text-2xl font-bold">{filtered ? filterStats?.count ?? totalCount : totalCount}</p></CardContent></Card>
+        {shownMetrics.map((metric) => (
+          <Card key={metric.id}><CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground">{averageTitle(metric)}</CardTitle></CardHeader><CardContent><p className="text-2xl font-bold">{formatValue(metric, filtered ? filterStats?.averages[metricColumn(metric)] ?? null : metricAverage(summary, metric))}</p></CardContent></Card>
+        ))}
       </div>
 
       {/* Charts */}
       <div className="grid gap-6 lg:grid-cols-2">
         {typeData && (
-          <Card><CardHeader><CardTitle>{t('visualization.typeDistribution')}</CardTitle></CardHeader><CardContent className="h-[300px] flex items-center justify-center"><Pie data={typeData} options={{ maintainAspectRatio: false }} /></CardContent></Card>
+          <Card><CardHeader><CardTitle>{t('visualization.typeDistribution')}</CardTitle><CardDescription>{t('visualization.crossFilter.typeHint')}</CardDescription></CardHeader><CardContent className="h-[300px] flex items-center justify-center"><Pie data={typeData} options={{ maintainAspectRatio: false, onClick: (_event, elements) => { if (elements[0]) setCrossFilter(toggleType(crossFilter, typeLabels[elements[0].index])); } }} /></CardContent></Card>
         )}
-        {scatterData && (
-          <Card><CardHeader><CardTitle>{t('visualization.pressureFlowrate')}</CardTitle></CardHeader><CardContent className="h-[300px]"><Scatter data={scatterData} options={{ maintainAspectRatio: false, scales: { x: { title: { display: true, text: 'Flowrate' } }, y: { title: { display: true, text: 'Pressure' } } } }} /></CardContent></Card>
+        {data.length > 0 && (
+          <ScatterCard
+            readings={data.filter((row) => matchesCrossFilter(row, crossFilter, 'region'))}
+            metrics={metrics}
+            region={crossFilter.region}
+            onRegionChange={(region) => setCrossFilter({ ...crossFilter, region })}
+          />
         )}
       </div>
 
-      {/* Data Table */}
-      <Card>
-        <CardHeader><CardTitle>{t('visualization.dataTable')}</CardTitle></CardHeader>
-        <CardContent>
-          <div className="rounded-lg border overflow-auto max-h-96">
-            <Table>
-              <TableHeader><TableRow><TableHead>{t('table.equipmentName')}</TableHead><TableHead>{t('table.type')}</TableHead><TableHead className="text-right">{t('table.flowrate')}</TableHead><TableHead className="text-right">{t('table.pressure')}</TableHead><TableHead className="text-right">{t('table.temperature')}</TableHead></TableRow></TableHeader>
-              <TableBody>
-                {data.slice(0, 20).map((row, i) => (<TableRow key={i}><TableCell>{row.equipment_name}</TableCell><TableCell>{row.equipment_type}</TableCell><TableCell className="text-right">{row.flowrate?.toFixed(2) ?? '-'}</TableCell><TableCell className="text-right">{row.pressure?.toFixed(2) ?? '-'}</TableCell><TableCell className="text-right">{row.temperature?.toFixed(2) ?? '-'}</TableCell></TableRow>))}
-              </TableBody>
-            </Table>
-          </div>
-        </CardContent>
-      </Card>
+      {selectedUpload && (
+        <TimeSeriesCard
+          key={selectedUpload}
+          uploadId={selectedUpload}
+          crossFilter={crossFilter}
+          metrics={shownMetrics}
+          initialEquipment={location.state?.equipment}
+        />
+      )}
+
+      {selectedUpload && <DataTableCard key={selectedUpload} uploadId={selectedUpload} metrics={shownMetrics} crossFilter={crossFilter} />}
     </div>
   );
 }
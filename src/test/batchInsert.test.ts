@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+import { chunk, matchesCheckpoint, withRetry } from "@/lib/batchInsert";
+
+describe("chunk", () => {
+  it("splits into batches of the given size", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries until the attempt succeeds", async () => {
+    const attempt = vi.fn().mockRejectedValueOnce(new Error("timeout")).mockResolvedValueOnce("ok");
+    await expect(withRetry(attempt, { retries: 2, baseDelayMs: 1 })).resolves.toBe("ok");
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const attempt = vi.fn().mockRejectedValue(new Error("down"));
+    await expect(withRetry(attempt, { retries: 2, baseDelayMs: 1 })).rejects.toThrow("down");
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("matchesCheckpoint", () => {
+  const file = new File(["a"], "plant.csv", { lastModified: 1000 });
+  const checkpoint = {
+    userId: "u",
+    sessionId: "s",
+    fileName: "plant.csv",
+    fileSize: 1,
+    lastModified: 1000,
+    totalRows: 10,
+    contentHash: "abc",
+    batchSize: 5,
+    committedBatches: 1,
+  };
+
+  it("only resumes for the same file and rows", () => {
+    expect(matchesCheckpoint(checkpoint, file, 10, "abc")).toBe(true);
+    expect(matchesCheckpoint(checkpoint, file, 11, "abc")).toBe(false);
+    expect(matchesCheckpoint(null, file, 10, "abc")).toBe(false);
+  });
+
+  it("does not resume after the rows were edited", () => {
+    expect(matchesCheckpoint(checkpoint, file, 10, "def")).toBe(false);
+    expect(matchesCheckpoint(checkpoint, file, 10, null)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  assignColumn,
+  detectColumnMapping,
+  missingRequiredFields,
+  parseRow,
+} from "@/lib/columnMapping";
+
+describe("detectColumnMapping", () => {
+  it("maps the standard headers with high confidence", () => {
+    const mapping = detectColumnMapping(["Equipment Name", "Type", "Flowrate", "Pressure", "Temperature"]);
+    expect(mapping.map((m) => m.target)).toEqual([
+      "equipment_name",
+      "equipment_type",
+      "flowrate",
+      "pressure",
+      "temperature",
+    ]);
+    expect(mapping.every((m) => m.confidence === "high")).toBe(true);
+  });
+
+  it("never assigns one header to two fields", () => {
+    const mapping = detectColumnMapping(["Pump Type Name", "Flow"]);
+    expect(mapping[0].target).not.toBe("ignore");
+    expect(mapping.filter((m) => m.target === "equipment_name" || m.target === "equipment_type")).toHaveLength(1);
+  });
+
+  it("prefers an exact match over a partial one", () => {
+    const mapping = detectColumnMapping(["Temp Setpoint", "Temperature"]);
+    expect(mapping[1]).toEqual({ target: "temperature", confidence: "high" });
+    expect(mapping[0].target).toBe("ignore");
+  });
+});
+
+describe("assignColumn", () => {
+  it("releases the target from the previous column", () => {
+    const mapping = assignColumn(detectColumnMapping(["Name", "Tag"]), 1, "equipment_name");
+    expect(mapping[0].target).toBe("ignore");
+    expect(mapping[1]).toEqual({ target: "equipment_name", confidence: "manual" });
+    expect(missingRequiredFields(mapping)).toEqual(["equipment_type"]);
+  });
+});
+
+describe("parseRow", () => {
+  it("reads values from the mapped columns", () => {
+    const headers = ["Name", "Type", "Flow"];
+    expect(parseRow(["P-101", "Pump", "12.5"], detectColumnMapping(headers))).toEqual(
+      { equipment_name: "P-101", equipment_type: "Pump", flowrate: 12.5, pressure: null, temperature: null, reading_time: null, extra: {} }
+    );
+  });
+});
+
+describe("reading time column", () => {
+  it("is detected from common timestamp headers", () => {
+    const mapping = detectColumnMapping(["Timestamp", "Equipment Name", "Type", "Temperature"]);
+    expect(mapping[0].target).toBe("reading_time");
+    expect(mapping[3].target).toBe("temperature");
+  });
+
+  it("ignores durations that only contain the word time", () => {
+    const mapping = detectColumnMapping(["Equipment Name", "Residence Time (min)", "Date"]);
+    expect(mapping[1].target).toBe("ignore");
+    expect(mapping[2]).toEqual({ target: "reading_time", confidence: "high" });
+  });
+});
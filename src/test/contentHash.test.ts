@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { hashRows } from "@/lib/contentHash";
+
+const rows = [
+  { equipment_name: "P-101", equipment_type: "Pump", flowrate: 120, pressure: 5.2, temperature: 80, reading_time: null, extra: {} },
+  { equipment_name: "V-201", equipment_type: "Valve", flowrate: null, pressure: 3, temperature: 0, reading_time: null, extra: {} },
+];
+
+describe("hashRows", () => {
+  it("gives the same hash for the same rows", async () => {
+    const hash = await hashRows(rows);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashRows(rows.map((row) => ({ ...row })))).toBe(hash);
+  });
+
+  it("changes when any value or the row order changes", async () => {
+    const hash = await hashRows(rows);
+    expect(await hashRows([{ ...rows[0], pressure: 5.3 }, rows[1]])).not.toBe(hash);
+    expect(await hashRows([rows[1], rows[0]])).not.toBe(hash);
+  });
+
+  it("keeps the hash of uploads made before reading times", async () => {
+    expect(await hashRows(rows)).toBe("08a9a82b7b62e265c56477aedcc735b42ae95cf1b8e91a3f80c4a667298d572e");
+    expect(await hashRows([{ ...rows[0], reading_time: "2026-02-12T08:00:00.000Z" }, rows[1]])).not.toBe(
+      await hashRows(rows)
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import {
+  CrossFilter,
+  CrossFilterRow,
+  NO_CROSS_FILTER,
+  isCrossFiltered,
+  matchesCrossFilter,
+  regionRangesJson,
+  toggleType,
+  withRegionRanges,
+} from "@/lib/crossFilter";
+import { QUANTITY_METRICS } from "@/lib/metrics";
+
+const [flowrate, pressure] = QUANTITY_METRICS;
+
+function row(type: string, flow: number | null, press: number | null): CrossFilterRow {
+  return { equipment_type: type, flowrate: flow, pressure: press, temperature: null };
+}
+
+const rows = [row("Pump", 10, 5), row("Pump", 50, 2), row("Valve", 12, 4), row("Valve", null, 4)];
+
+const region: CrossFilter["region"] = { x: flowrate, y: pressure, xRange: [5, 20], yRange: [3, 6] };
+
+describe("cross filter", () => {
+  it("toggles equipment types", () => {
+    const pumps = toggleType(NO_CROSS_FILTER, "Pump");
+    expect(pumps.types).toEqual(["Pump"]);
+    expect(isCrossFiltered(pumps)).toBe(true);
+    expect(isCrossFiltered(toggleType(pumps, "Pump"))).toBe(false);
+  });
+
+  it("keeps rows of the selected types inside the brushed region", () => {
+    const filter: CrossFilter = { types: ["Pump"], region };
+    expect(rows.filter((r) => matchesCrossFilter(r, filter))).toEqual([rows[0]]);
+    expect(rows.filter((r) => matchesCrossFilter(r, filter, "types"))).toEqual([rows[0], rows[2]]);
+    expect(rows.filter((r) => matchesCrossFilter(r, filter, "region"))).toEqual([rows[0], rows[1]]);
+  });
+
+  it("narrows the table's ranges to the brushed region", () => {
+    expect(withRegionRanges({ flowrate: { min: 8, max: null } }, region)).toEqual({
+      flowrate: { min: 8, max: 20 },
+      pressure: { min: 3, max: 6 },
+    });
+    expect(withRegionRanges({}, null)).toEqual({});
+  });
+
+  it("passes the region to the database as ranges per column", () => {
+    expect(regionRangesJson(region)).toEqual({ flowrate: { min: 5, max: 20 }, pressure: { min: 3, max: 6 } });
+    expect(regionRangesJson(null)).toEqual({});
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { metricColumn, nextSort, searchFilter, visibleWindow } from "@/lib/dataTable";
+import { Metric, QUANTITY_METRICS } from "@/lib/metrics";
+
+describe("data table", () => {
+  it("reads quantities from their column and parameters from extra", () => {
+    const vibration: Metric = {
+      id: "param:vibration",
+      parameter: { id: "v", key: "vibration", name: "Vibration", unit: "mm/s", min: null, max: null },
+    };
+    expect(metricColumn(QUANTITY_METRICS[0])).toBe("flowrate");
+    expect(metricColumn(vibration)).toBe("extra->vibration");
+  });
+
+  it("searches name and type with wildcards and quotes taken literally", () => {
+    expect(searchFilter(" pump ")).toBe('equipment_name.ilike."%pump%",equipment_type.ilike."%pump%"');
+    expect(searchFilter('50%_"a,b"')).toBe(
+      'equipment_name.ilike."%50\\\\%\\\\_\\"a,b\\"%",equipment_type.ilike."%50\\\\%\\\\_\\"a,b\\"%"'
+    );
+  });
+
+  it("cycles a column through ascending, descending and unsorted", () => {
+    const asc = nextSort(null, "pressure");
+    expect(asc).toEqual({ column: "pressure", direction: "asc" });
+    const desc = nextSort(asc, "pressure");
+    expect(desc).toEqual({ column: "pressure", direction: "desc" });
+    expect(nextSort(desc, "pressure")).toBeNull();
+    expect(nextSort(desc, "equipment_name")).toEqual({ column: "equipment_name", direction: "asc" });
+  });
+
+  it("renders only the rows in view plus overscan", () => {
+    expect(visibleWindow(0, 400, 40, 100_000, 5)).toEqual({ start: 0, end: 15 });
+    expect(visibleWindow(4000, 400, 40, 100_000, 5)).toEqual({ start: 95, end: 115 });
+    expect(visibleWindow(4000, 400, 40, 12, 5)).toEqual({ start: 12, end: 12 });
+    expect(visibleWindow(0, 400, 40, 0)).toEqual({ start: 0, end: 0 });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  Equipment,
+  EquipmentReading,
+  equipmentDetailsToRow,
+  findByTag,
+  latestValue,
+  limitStatus,
+  matchesEquipmentSearch,
+  metricLimit,
+  uploadTrend,
+} from "@/lib/equipment";
+import { Metric, QUANTITY_METRICS } from "@/lib/metrics";
+
+const pump: Equipment = {
+  id: "1",
+  tag: "P-101",
+  type: "Centrifugal pump",
+  area: "Unit 2",
+  manufacturer: null,
+  commissionedOn: "2019-04-01",
+  limits: { pressure: { min: 1, max: 8 } },
+};
+
+const pressure = QUANTITY_METRICS.find((metric) => metric.id === "pressure")!;
+
+function reading(uploadId: string, uploadedAt: string, pressure: number | null, readingTime: string | null = null): EquipmentReading {
+  return {
+    id: `${uploadId}-${pressure}`,
+    upload_id: uploadId,
+    equipment_type: "Pump",
+    flowrate: null,
+    pressure,
+    temperature: null,
+    reading_time: readingTime,
+    created_at: uploadedAt,
+    uploads: { filename: `${uploadId}.csv`, created_at: uploadedAt, archived_at: null },
+  };
+}
+
+describe("equipment registry", () => {
+  it("stores blank details as null", () => {
+    expect(
+      equipmentDetailsToRow({ type: "  Pump ", area: "", manufacturer: "   ", commissionedOn: "" })
+    ).toEqual({ equipment_type: "Pump", area: null, manufacturer: null, commissioned_on: null });
+  });
+
+  it("searches tag and details ignoring case", () => {
+    expect(matchesEquipmentSearch(pump, "p-10")).toBe(true);
+    expect(matchesEquipmentSearch(pump, "unit 2")).toBe(true);
+    expect(matchesEquipmentSearch(pump, "compressor")).toBe(false);
+    expect(matchesEquipmentSearch(pump, "  ")).toBe(true);
+  });
+
+  it("finds equipment by tag ignoring case and spaces", () => {
+    expect(findByTag([pump], " p-101 ")).toBe(pump);
+    expect(findByTag([pump], "P-102")).toBeUndefined();
+  });
+
+  it("compares values with the asset's limits or a parameter's range", () => {
+    expect(limitStatus(9, metricLimit(pump, pressure))).toBe("high");
+    expect(limitStatus(0.5, metricLimit(pump, pressure))).toBe("low");
+    expect(limitStatus(4, metricLimit(pump, pressure))).toBe("normal");
+    expect(limitStatus(null, metricLimit(pump, pressure))).toBe("noData");
+
+    const vibration: Metric = {
+      id: "param:vibration",
+      parameter: { id: "v", key: "vibration", name: "Vibration", unit: "mm/s", min: null, max: 7 },
+    };
+    expect(limitStatus(8, metricLimit(pump, vibration))).toBe("high");
+    expect(limitStatus(8, metricLimit(pump, QUANTITY_METRICS[0]))).toBe("noLimits");
+  });
+
+  it("takes the latest value by reading time, then upload time", () => {
+    const readings = [
+      reading("b", "2024-03-01T00:00:00Z", 5),
+      reading("a", "2024-02-01T00:00:00Z", 7, "2024-04-01T00:00:00Z"),
+      reading("c", "2024-05-01T00:00:00Z", null),
+    ];
+    expect(latestValue(readings, pressure)).toEqual({ value: 7, at: "2024-04-01T00:00:00Z" });
+  });
+
+  it("averages readings per upload, oldest upload first", () => {
+    const readings = [
+      reading("b", "2024-03-01T00:00:00Z", 4),
+      reading("a", "2024-02-01T00:00:00Z", 2),
+      reading("a", "2024-02-01T00:00:00Z", 6),
+      reading("c", "2024-04-01T00:00:00Z", null),
+    ];
+    expect(uploadTrend(readings, pressure).map(({ uploadId, average }) => [uploadId, average])).toEqual([
+      ["a", 4],
+      ["b", 4],
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { ImportProfile, findMatchingProfile, headerFingerprint } from "@/lib/importProfiles";
+import { DEFAULT_PARSE_OPTIONS } from "@/lib/parsing";
+
+const HEADERS = ["Tag", "Type", "Flow (m3/h)", "Pressure (bar)", "Temperature (C)"];
+
+function profile(id: string, headers: string[] | null): ImportProfile {
+  return {
+    id,
+    name: id,
+    columnMapping: {},
+    columnUnits: {},
+    options: DEFAULT_PARSE_OPTIONS,
+    headerFingerprint: headers && headerFingerprint(headers),
+  };
+}
+
+describe("headerFingerprint", () => {
+  it("ignores order, case and spacing but keeps units", () => {
+    expect(headerFingerprint([" Tag ", "Flow  (m3/h)", ""])).toBe(headerFingerprint(["flow (m3/h)", "TAG"]));
+    expect(headerFingerprint(["Pressure (psi)"])).not.toBe(headerFingerprint(["Pressure (bar)"]));
+  });
+});
+
+describe("findMatchingProfile", () => {
+  const saved = profile("plant", HEADERS);
+
+  it("matches identical headers", () => {
+    expect(findMatchingProfile([saved], HEADERS)).toBe(saved);
+  });
+
+  it("matches the same headers in another order", () => {
+    expect(findMatchingProfile([saved], [...HEADERS].reverse())).toBe(saved);
+  });
+
+  it("matches an export with an extra column", () => {
+    // 5 shared of 6 distinct headers is above the 0.8 threshold.
+    expect(findMatchingProfile([saved], [...HEADERS, "Operator"])).toBe(saved);
+  });
+
+  it("does not match when too few headers are shared", () => {
+    // 4 shared of 6 distinct headers is below the threshold.
+    expect(findMatchingProfile([saved], [...HEADERS.slice(0, 4), "Level (%)"])).toBeNull();
+  });
+
+  it("returns null for unrelated headers and profiles without a fingerprint", () => {
+    expect(findMatchingProfile([saved], ["Date", "Shift", "Operator"])).toBeNull();
+    expect(findMatchingProfile([profile("legacy", null)], HEADERS)).toBeNull();
+  });
+
+  it("prefers the closest of several profiles", () => {
+    const wider = profile("wider", [...HEADERS, "Operator"]);
+    expect(findMatchingProfile([wider, saved], HEADERS)).toBe(saved);
+  });
+});
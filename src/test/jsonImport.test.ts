@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { findRecordArray, parseJsonDocument, recordsToRows, resolvePath } from "@/lib/jsonImport";
+
+const document = {
+  site: "Rotterdam",
+  data: {
+    units: [
+      { tag: "P-101", readings: [{ flow: { value: 12.5 } }, { flow: { value: 0 } }] },
+      { tag: "P-102", readings: [{ flow: { value: 9 } }] },
+    ],
+  },
+};
+
+describe("resolvePath", () => {
+  it("follows keys, indexes and wildcards", () => {
+    expect(resolvePath(document, "$.site")).toBe("Rotterdam");
+    expect(resolvePath(document, "$.data.units[1].tag")).toBe("P-102");
+    expect(resolvePath(document, "data['units'][*].readings")).toHaveLength(3);
+  });
+});
+
+describe("findRecordArray", () => {
+  it("returns the selector of the first array of objects", () => {
+    expect(findRecordArray(document)).toBe("$.data.units");
+    expect(findRecordArray([{ a: 1 }])).toBe("$");
+  });
+});
+
+describe("recordsToRows", () => {
+  it("flattens nested fields into dotted headers", () => {
+    const rows = recordsToRows(document, "$.data.units");
+    expect(rows?.[0]).toEqual(["tag", "readings[0].flow.value", "readings[1].flow.value"]);
+    expect(rows?.[2]).toEqual(["P-102", "9", ""]);
+  });
+
+  it("returns null when the selector is not an array", () => {
+    expect(recordsToRows(document, "$.site")).toBeNull();
+  });
+});
+
+describe("parseJsonDocument", () => {
+  it("reads newline-delimited JSON", () => {
+    expect(parseJsonDocument('{"tag":"P-101"}\n{"tag":"P-102"}\n')).toEqual([{ tag: "P-101" }, { tag: "P-102" }]);
+  });
+});
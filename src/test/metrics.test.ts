@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { metricAverage, metricValue, metricsFor } from "@/lib/metrics";
+
+const vibration = { id: "1", key: "vibration", name: "Vibration", unit: "mm/s", min: null, max: 7.1 };
+
+describe("metrics", () => {
+  it("lists the built-in quantities before the parameters", () => {
+    expect(metricsFor([vibration]).map((metric) => metric.id)).toEqual([
+      "flowrate",
+      "pressure",
+      "temperature",
+      "param:vibration",
+    ]);
+  });
+
+  it("reads values from columns or from extra", () => {
+    const [flowrate, , , vibrationMetric] = metricsFor([vibration]);
+    const row = { flowrate: 12, pressure: null, temperature: null, extra: { vibration: 2.5 } };
+    expect(metricValue(row, flowrate)).toBe(12);
+    expect(metricValue(row, vibrationMetric)).toBe(2.5);
+    expect(metricValue({ ...row, extra: {} }, vibrationMetric)).toBeNull();
+  });
+
+  it("takes averages from the upload summary", () => {
+    const [flowrate, , , vibrationMetric] = metricsFor([vibration]);
+    expect(metricAverage({ avgFlowrate: 10 }, flowrate)).toBe(10);
+    expect(metricAverage({ avgFlowrate: 10 }, vibrationMetric)).toBeNull();
+    expect(metricAverage({ parameterAverages: { vibration: 3 } }, vibrationMetric)).toBe(3);
+  });
+});
@@ -0,0 +1,22 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { TOUR_STEPS, loadTourState, saveTourState } from "@/lib/onboarding";
+
+describe("onboarding tour state", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("starts new users at the first step", () => {
+    expect(loadTourState("user-1")).toBe(0);
+  });
+
+  it("keeps progress per user", () => {
+    saveTourState("user-1", 2);
+    saveTourState("user-2", "done");
+    expect(loadTourState("user-1")).toBe(2);
+    expect(loadTourState("user-2")).toBe("done");
+  });
+
+  it("restarts when the stored step no longer exists", () => {
+    saveTourState("user-1", TOUR_STEPS.length);
+    expect(loadTourState("user-1")).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PARSE_OPTIONS,
+  detectDelimiter,
+  detectNumberFormat,
+  isUnreadableNumber,
+  isUnreadableTimestamp,
+  numberFormatExample,
+  parseNullTokens,
+  parseNumber,
+  parseTimestamp,
+  pastedFile,
+  separatorsForLocale,
+} from "@/lib/parsing";
+
+describe("parseNumber", () => {
+  it("keeps zero and treats null tokens as missing", () => {
+    expect(parseNumber("0", DEFAULT_PARSE_OPTIONS)).toBe(0);
+    expect(parseNumber("0.0", DEFAULT_PARSE_OPTIONS)).toBe(0);
+    ["", " ", "NA", "-", "N/A", "#n/a"].forEach((value) => {
+      expect(parseNumber(value, DEFAULT_PARSE_OPTIONS)).toBeNull();
+      expect(isUnreadableNumber(value, DEFAULT_PARSE_OPTIONS)).toBe(false);
+    });
+    expect(isUnreadableNumber("abc", DEFAULT_PARSE_OPTIONS)).toBe(true);
+  });
+
+  it("uses the configured tokens and decimal separator", () => {
+    const options = { ...DEFAULT_PARSE_OPTIONS, decimalSeparator: "," as const, nullTokens: parseNullTokens("no data, ,?") };
+    expect(options.nullTokens).toEqual(["no data", "?"]);
+    expect(parseNumber("3,5", options)).toBe(3.5);
+    expect(parseNumber("No Data", options)).toBeNull();
+    expect(isUnreadableNumber("NA", options)).toBe(true);
+  });
+});
+
+describe("separators", () => {
+  it("detects semicolon files that use decimal commas", () => {
+    const sample = "Naam;Type;Debiet;Druk\nP-101;Pomp;12,5;3,1\nP-102;Pomp;8;2,75\nK-1;Koeler;1.234,5;1";
+    expect(detectDelimiter(sample)).toBe(";");
+    expect(detectDelimiter("Name,Type,Flow\nP-1,Pump,1.5\nP-2,Pump,2")).toBe(",");
+    expect(detectDelimiter('Name\tNote\nP-1\t"a, b; c"')).toBe("\t");
+  });
+
+  it("reads pasted ranges as a file named after the dataset", async () => {
+    const file = pastedFile("Name\tFlow\r\nP-1\t\r\n", " Line 3 survey ");
+    const text = await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result);
+      reader.readAsText(file);
+    });
+    expect(file.name).toBe("Line 3 survey");
+    expect(text).toBe("Name\tFlow\r\nP-1\t");
+  });
+
+  it("strips thousands separators before reading the decimal", () => {
+    const dutch = { ...DEFAULT_PARSE_OPTIONS, decimalSeparator: "," as const, thousandsSeparator: "." as const };
+    expect(parseNumber("1.234,5", dutch)).toBe(1234.5);
+    expect(parseNumber("1,234.5", { ...DEFAULT_PARSE_OPTIONS, thousandsSeparator: "," })).toBe(1234.5);
+    expect(parseNumber("1 234", { ...DEFAULT_PARSE_OPTIONS, thousandsSeparator: " " })).toBe(1234);
+  });
+
+  it("only accepts thousands separators between groups of three digits", () => {
+    const dutch = { ...DEFAULT_PARSE_OPTIONS, decimalSeparator: "," as const, thousandsSeparator: "." as const };
+    const english = { ...DEFAULT_PARSE_OPTIONS, thousandsSeparator: "," as const };
+    expect(parseNumber("12.5", dutch)).toBeNull();
+    expect(isUnreadableNumber("12.5", dutch)).toBe(true);
+    expect(parseNumber("1.23.4", dutch)).toBeNull();
+    expect(parseNumber("12,5", english)).toBeNull();
+    expect(isUnreadableNumber("12,5", english)).toBe(true);
+    expect(parseNumber("1,234,567.25", english)).toBe(1234567.25);
+    expect(parseNumber("12.5", { ...DEFAULT_PARSE_OPTIONS, decimalSeparator: "," })).toBeNull();
+  });
+});
+
+describe("detectNumberFormat", () => {
+  it("reads the decimal separator from the file's cells", () => {
+    expect(detectNumberFormat([["P-1", "12,5", "3"], ["P-2", "8", "2,75"]])).toEqual({
+      decimalSeparator: ",",
+      thousandsSeparator: "",
+    });
+    expect(detectNumberFormat([["P-1", "12.5"], ["P-2", "1,234"]])).toEqual({
+      decimalSeparator: ".",
+      thousandsSeparator: ",",
+    });
+    expect(detectNumberFormat([["K-1", "1.234,5"], ["K-2", "1.250"]])).toEqual({
+      decimalSeparator: ",",
+      thousandsSeparator: ".",
+    });
+    expect(detectNumberFormat([["K-1", "1 234,5"]])).toEqual({ decimalSeparator: ",", thousandsSeparator: " " });
+  });
+
+  it("leaves the format open when no cell tells them apart", () => {
+    expect(detectNumberFormat([["P-1", "1,234", "12"], ["P-2", "12.02.2026", "08:30"]])).toBeNull();
+    expect(detectNumberFormat([["Name", "Type"]])).toBeNull();
+  });
+
+  it("falls back to the separators of the locale", () => {
+    expect(separatorsForLocale("nl")).toEqual({ decimalSeparator: ",", thousandsSeparator: "." });
+    expect(separatorsForLocale("en")).toEqual({ decimalSeparator: ".", thousandsSeparator: "," });
+  });
+
+  it("writes an example in the format", () => {
+    expect(numberFormatExample({ decimalSeparator: ",", thousandsSeparator: "." })).toBe("1.234,5");
+  });
+});
+
+describe("parseTimestamp", () => {
+  it("reads ISO dates, offsets and epoch values", () => {
+    expect(parseTimestamp("2026-02-12T08:30:15Z", DEFAULT_PARSE_OPTIONS)).toBe("2026-02-12T08:30:15.000Z");
+    expect(parseTimestamp("2026-02-12 08:30+01:00", DEFAULT_PARSE_OPTIONS)).toBe("2026-02-12T07:30:00.000Z");
+    expect(parseTimestamp("1770885015", DEFAULT_PARSE_OPTIONS)).toBe("2026-02-12T08:30:15.000Z");
+    expect(parseTimestamp("1770885015000", DEFAULT_PARSE_OPTIONS)).toBe("2026-02-12T08:30:15.000Z");
+    expect(parseTimestamp("2026-02-12 08:30", DEFAULT_PARSE_OPTIONS)).toBe(new Date(2026, 1, 12, 8, 30).toISOString());
+  });
+
+  it("separates missing from unreadable timestamps", () => {
+    expect(parseTimestamp("NA", DEFAULT_PARSE_OPTIONS)).toBeNull();
+    expect(isUnreadableTimestamp("NA", DEFAULT_PARSE_OPTIONS)).toBe(false);
+    expect(isUnreadableTimestamp("shift start", DEFAULT_PARSE_OPTIONS)).toBe(true);
+  });
+
+  it("does not read bare numbers as dates", () => {
+    ["12.5", "3", "45", "12,5", "2026", "-7"].forEach((value) => {
+      expect(parseTimestamp(value, DEFAULT_PARSE_OPTIONS)).toBeNull();
+      expect(isUnreadableTimestamp(value, DEFAULT_PARSE_OPTIONS)).toBe(true);
+    });
+  });
+});
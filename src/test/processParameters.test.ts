@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { isOutOfRange, parameterKey, parameterLabel } from "@/lib/processParameters";
+
+describe("process parameters", () => {
+  it("derives storage keys from names", () => {
+    expect(parameterKey("Power Draw (kW)")).toBe("power_draw_kw");
+    expect(parameterKey("  pH ")).toBe("ph");
+    expect(parameterKey("振動")).toBe("振動");
+  });
+
+  it("checks values against open or closed ranges", () => {
+    expect(isOutOfRange({ min: 0, max: 14 }, 15)).toBe(true);
+    expect(isOutOfRange({ min: 0, max: null }, 1e6)).toBe(false);
+    expect(isOutOfRange({ min: null, max: null }, -1)).toBe(false);
+  });
+
+  it("labels a parameter with its unit when it has one", () => {
+    expect(parameterLabel({ name: "Speed", unit: "rpm" })).toBe("Speed (rpm)");
+    expect(parameterLabel({ name: "pH", unit: "" })).toBe("pH");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RETENTION,
+  MAX_RETENTION_VALUE,
+  clampRetentionValue,
+  retentionFromProfile,
+  retentionOverflow,
+} from "@/lib/retention";
+
+describe("retentionFromProfile", () => {
+  it("reads the saved policy", () => {
+    expect(retentionFromProfile({ retention_mode: "days", retention_value: 90, retention_archive: true })).toEqual({
+      mode: "days",
+      value: 90,
+      archive: true,
+    });
+  });
+
+  it("falls back to the default for missing or unknown values", () => {
+    expect(retentionFromProfile({})).toEqual(DEFAULT_RETENTION);
+    expect(retentionFromProfile({ retention_mode: "weekly" }).mode).toBe("count");
+  });
+});
+
+describe("retentionOverflow", () => {
+  it("counts the uploads of a batch that a count limit removes again", () => {
+    expect(retentionOverflow({ mode: "count", value: 5, archive: false }, 7)).toBe(2);
+    expect(retentionOverflow({ mode: "count", value: 5, archive: false }, 3)).toBe(0);
+    expect(retentionOverflow({ mode: "days", value: 1, archive: false }, 7)).toBe(0);
+    expect(retentionOverflow({ mode: "forever", value: 1, archive: true }, 7)).toBe(0);
+  });
+});
+
+describe("clampRetentionValue", () => {
+  it("keeps whole numbers within range", () => {
+    expect(clampRetentionValue(0)).toBe(1);
+    expect(clampRetentionValue(12.6)).toBe(13);
+    expect(clampRetentionValue(1e9)).toBe(MAX_RETENTION_VALUE);
+    expect(clampRetentionValue(NaN)).toBe(DEFAULT_RETENTION.value);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { SAMPLE_DATASETS, sampleRows } from "@/lib/sampleDatasets";
+
+const end = new Date("2024-06-01T12:00:00Z");
+
+describe("sample datasets", () => {
+  it("generates the same readings every time", () => {
+    const [dataset] = SAMPLE_DATASETS;
+    expect(sampleRows(dataset, end)).toEqual(sampleRows(dataset, end));
+  });
+
+  it("covers two days for every asset, ending at the given time", () => {
+    SAMPLE_DATASETS.forEach((dataset) => {
+      const rows = sampleRows(dataset, end);
+      expect(rows).toHaveLength(96 * dataset.assets.length);
+      expect(rows[rows.length - 1].reading_time).toBe(end.toISOString());
+      expect(new Set(rows.map((row) => row.equipment_name)).size).toBe(dataset.assets.length);
+    });
+  });
+
+  it("only produces readings that pass upload validation", () => {
+    SAMPLE_DATASETS.flatMap((dataset) => sampleRows(dataset, end)).forEach((row) => {
+      expect(row.equipment_name).not.toBe("Unknown");
+      expect(row.pressure === null || row.pressure >= 0).toBe(true);
+      expect(row.temperature === null || row.temperature > -273.15).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { isSpreadsheetFile, sheetRows } from "@/lib/spreadsheet";
+import { tableFromRows } from "@/lib/parsing";
+
+// Dates are kept as date cells, as readWorkbook does with cellDates.
+function workbook(sheets: Record<string, unknown[][]>) {
+  const book = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows, { cellDates: true }), name));
+  return book;
+}
+
+describe("spreadsheet import", () => {
+  it("recognises Excel files by extension", () => {
+    expect(isSpreadsheetFile("Plant.XLSX")).toBe(true);
+    expect(isSpreadsheetFile("legacy.xls")).toBe(true);
+    expect(isSpreadsheetFile("readings.csv")).toBe(false);
+  });
+
+  it("reads the selected sheet and nothing for an unknown one", () => {
+    const book = workbook({
+      Notes: [["Exported by DCS"]],
+      Readings: [["Name", "Flow"], ["P-1", 12.5]],
+    });
+    expect(sheetRows(book, "Readings")).toEqual([["Name", "Flow"], ["P-1", "12.5"]]);
+    expect(sheetRows(book, "Notes")).toEqual([["Exported by DCS"]]);
+    expect(sheetRows(book, "Missing")).toEqual([]);
+  });
+
+  it("reads raw numbers, ISO dates and empty cells as strings", () => {
+    const book = workbook({
+      Sheet1: [["Name", "Flow", "Time", "Note"], ["P-1", 1234.5, new Date("2026-02-12T08:30:00Z"), null]],
+    });
+    expect(sheetRows(book, "Sheet1")[1]).toEqual(["P-1", "1234.5", "2026-02-12T08:30:00.000Z", ""]);
+  });
+
+  it("skips blank rows so the header row offset counts non-empty rows", () => {
+    const book = workbook({
+      Sheet1: [["Plant report"], [], ["Unit 2"], ["Name", "Flow"], ["P-1", 3], [], ["P-2", 4]],
+    });
+    const rows = sheetRows(book, "Sheet1");
+    expect(tableFromRows(rows, 2)).toEqual({ headers: ["Name", "Flow"], rows: [["P-1", "3"], ["P-2", "4"]] });
+    expect(tableFromRows(rows, 5)).toBeNull();
+  });
+});
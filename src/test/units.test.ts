@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { detectUnit, fromBase, resolveDisplayUnits, toBase } from "@/lib/units";
+import { detectColumnMapping, parseRow } from "@/lib/columnMapping";
+
+describe("detectUnit", () => {
+  it("reads units from bracketed and trailing header text", () => {
+    expect(detectUnit("pressure", "Pressure (psi)")?.id).toBe("psi");
+    expect(detectUnit("temperature", "Temp [°F]")?.id).toBe("degF");
+    expect(detectUnit("flowrate", "Flow m3/h")?.id).toBe("m3/h");
+    expect(detectUnit("pressure", "Pressure")).toBeNull();
+  });
+
+  it("reads headers marked absolute as absolute pressure", () => {
+    expect(detectUnit("pressure", "Pressure abs (psi)")?.id).toBe("psia");
+    expect(detectUnit("pressure", "Absolute pressure")?.id).toBe("bara");
+    expect(detectUnit("pressure", "Pressure (kPa abs)")?.id).toBe("kPaa");
+  });
+});
+
+describe("conversion", () => {
+  it("converts to and from the base units", () => {
+    expect(toBase("temperature", "degF", 212)).toBeCloseTo(100);
+    expect(toBase("temperature", "K", 0)).toBeCloseTo(-273.15);
+    expect(toBase("pressure", "psi", 14.5038)).toBeCloseTo(1, 4);
+    expect(fromBase("flowrate", "L/min", 6)).toBeCloseTo(100);
+  });
+
+  it("converts absolute pressure to gauge", () => {
+    expect(toBase("pressure", "bara", 1.01325)).toBeCloseTo(0);
+    expect(toBase("pressure", "psia", 14.6959)).toBeCloseTo(0, 4);
+    expect(fromBase("pressure", "kPaa", 0)).toBeCloseTo(101.325);
+  });
+
+  it("stores imported values in base units", () => {
+    const headers = ["Name", "Type", "Pressure (psi)", "Temp [°F]"];
+    const row = parseRow(["P-101", "Pump", "29.0076", "32"], detectColumnMapping(headers));
+    expect(row.pressure).toBeCloseTo(2, 4);
+    expect(row.temperature).toBeCloseTo(0);
+  });
+});
+
+describe("resolveDisplayUnits", () => {
+  it("uses the preset for named systems and falls back to base units for custom gaps", () => {
+    expect(resolveDisplayUnits("imperial")).toEqual({ flowrate: "gpm", pressure: "psi", temperature: "degF" });
+    expect(resolveDisplayUnits("custom", { pressure: "kPa" })).toEqual({ flowrate: "m3/h", pressure: "kPa", temperature: "degC" });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { createQueueItem, isQueueBusy, readyItems, updateQueueItem } from "@/lib/uploadQueue";
+
+const file = (name: string) => new File(["a,b\n1,2"], name, { type: "text/csv" });
+
+describe("upload queue", () => {
+  it("updates a single item by id", () => {
+    const queue = [createQueueItem(file("a.csv")), createQueueItem(file("b.csv"))];
+    const next = updateQueueItem(queue, queue[1].id, { status: "processing" });
+    expect(next.map((item) => item.status)).toEqual(["pending", "processing"]);
+    expect(isQueueBusy(next)).toBe(true);
+  });
+
+  it("only counts ready items with rows as uploadable", () => {
+    const [empty, withRows] = [createQueueItem(file("a.csv")), createQueueItem(file("b.csv"))];
+    const queue = [
+      { ...empty, status: "ready" as const },
+      { ...withRows, status: "ready" as const, rowCount: 1 },
+    ];
+    expect(readyItems(queue).map((item) => item.file.name)).toEqual(["b.csv"]);
+  });
+
+  it("leaves known duplicates out of the ready items", () => {
+    const earlier = { id: "u-1", filename: "a.csv", created_at: "2026-02-01T08:00:00Z" };
+    const queue = [
+      { ...createQueueItem(file("a.csv")), status: "ready" as const, rowCount: 1, duplicateOf: earlier },
+      { ...createQueueItem(file("b.csv")), status: "ready" as const, rowCount: 1 },
+    ];
+    expect(readyItems(queue).map((item) => item.file.name)).toEqual(["b.csv"]);
+  });
+});
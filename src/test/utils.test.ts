@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { MAX_ROWS_PER_REQUEST, fetchAllRows } from "@/lib/utils";
+
+describe("fetchAllRows", () => {
+  it("requests ranges until a page comes back short", async () => {
+    const total = MAX_ROWS_PER_REQUEST * 2 + 5;
+    const ranges: [number, number][] = [];
+    const rows = await fetchAllRows(async (from, to) => {
+      ranges.push([from, to]);
+      const data = Array.from({ length: Math.max(0, Math.min(to + 1, total) - from) }, (_, i) => from + i);
+      return { data, error: null };
+    });
+    expect(rows).toHaveLength(total);
+    expect(rows[total - 1]).toBe(total - 1);
+    expect(ranges).toEqual([
+      [0, 999],
+      [1000, 1999],
+      [2000, 2999],
+    ]);
+  });
+
+  it("stops after an empty page and rejects on errors", async () => {
+    let calls = 0;
+    const full = Array.from({ length: MAX_ROWS_PER_REQUEST }, () => 1);
+    const rows = await fetchAllRows(async () => ({ data: calls++ === 0 ? full : [], error: null }));
+    expect(rows).toHaveLength(MAX_ROWS_PER_REQUEST);
+    expect(calls).toBe(2);
+    await expect(fetchAllRows(async () => ({ data: null, error: new Error("timeout") }))).rejects.toThrow("timeout");
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { detectColumnMapping } from "@/lib/columnMapping";
+import { DEFAULT_PARSE_OPTIONS } from "@/lib/parsing";
+import {
+  acceptedRows,
+  applyRowEdit,
+  countByStatus,
+  editRow,
+  previewRows,
+  recheckDuplicates,
+  rejectedRowsCsv,
+  summarizeRows,
+  validateTable,
+} from "@/lib/validation";
+
+const headers = ["Equipment Name", "Type", "Flowrate", "Pressure", "Temperature"];
+
+function validate(rows: string[][], tableHeaders = headers) {
+  const table = { headers: tableHeaders, rows };
+  return validateTable(table, detectColumnMapping(tableHeaders), DEFAULT_PARSE_OPTIONS);
+}
+
+describe("validateTable", () => {
+  it("classifies rows and keeps errors out of the accepted rows", () => {
+    const rows = validate([
+      ["P-101", "Pump", "12.5", "3.1", "40"],
+      ["P-101", "Pump", "11", "3.0", "41"],
+      ["", "Valve", "5", "1", "20"],
+      ["R-1", "Reactor", "abc", "2", "-300"],
+      ["", "", "", "", ""],
+    ]);
+
+    expect(rows.map((row) => row.status)).toEqual(["ok", "warning", "error", "error"]);
+    expect(rows[3].issues.map((issue) => issue.code)).toEqual(["nonNumeric", "belowAbsoluteZero"]);
+    expect(rows[3].rowNumber).toBe(5);
+    expect(countByStatus(rows)).toEqual({ ok: 1, warning: 1, error: 2 });
+    expect(acceptedRows(rows)).toHaveLength(2);
+  });
+
+  it("rejects numbers followed by units or other text", () => {
+    const rows = validate([["P-1", "Pump", "12abc", "7 bar", "1e2"]]);
+    expect(rows[0].issues.map((issue) => [issue.code, issue.field])).toEqual([
+      ["nonNumeric", "flowrate"],
+      ["nonNumeric", "pressure"],
+    ]);
+  });
+
+  it("allows vacuum gauge readings but not negative absolute pressure", () => {
+    expect(validate([["V-1", "Vessel", "1", "-0.5", "20"]])[0].status).toBe("ok");
+    const absolute = validate([["V-1", "Vessel", "1", "-0.5", "20"]], [...headers.slice(0, 3), "Pressure (bara)", "Temperature"]);
+    expect(absolute[0].issues[0].code).toBe("negativeAbsolutePressure");
+  });
+
+  it("writes rejected rows with their reasons as CSV", () => {
+    const rows = validate([["R-1", "Reactor", "abc", "2", "20"]]);
+    const csv = rejectedRowsCsv(rows, headers, (issue) => issue.code);
+    expect(csv.split("\r\n")).toEqual([
+      "row,Equipment Name,Type,Flowrate,Pressure,Temperature,reasons",
+      "2,R-1,Reactor,abc,2,20,nonNumeric",
+    ]);
+  });
+});
+
+describe("editRow", () => {
+  it("rechecks only the edited fields", () => {
+    const [row] = validate([["R-1", "Reactor", "abc", "2", "-300"]]);
+    const fixed = editRow(row, { temperature: 25 }, { temperature: "25" });
+    expect(fixed.issues.map((issue) => issue.code)).toEqual(["nonNumeric"]);
+    expect(editRow(fixed, { flowrate: 4 }).status).toBe("ok");
+    expect(editRow(fixed, { equipment_name: "Unknown" }).issues[1].code).toBe("missingName");
+  });
+
+  it("marks duplicates again after a rename", () => {
+    const rows = validate([
+      ["P-101", "Pump", "1", "1", "1"],
+      ["P-101", "Pump", "1", "1", "1"],
+      ["P-102", "Pump", "1", "1", "1"],
+    ]);
+    const renamed = recheckDuplicates([
+      rows[0],
+      editRow(rows[1], { equipment_name: "P-103" }),
+      editRow(rows[2], { equipment_name: "p-101" }),
+    ]);
+    expect(renamed.map((row) => row.status)).toEqual(["ok", "ok", "warning"]);
+  });
+
+  it("applies edits and deletions by row number", () => {
+    const rows = validate([
+      ["P-101", "Pump", "1", "1", "1"],
+      ["P-101", "Pump", "1", "1", "1"],
+      ["R-1", "Reactor", "abc", "1", "1"],
+    ]);
+    const fixed = applyRowEdit(rows, { type: "edit", rowNumbers: [4], changes: { flowrate: 2 }, typed: { flowrate: "2" } });
+    expect(fixed.map((row) => row.status)).toEqual(["ok", "warning", "ok"]);
+    const deleted = applyRowEdit(fixed, { type: "delete", rowNumbers: [2] });
+    expect(deleted.map((row) => [row.rowNumber, row.status])).toEqual([
+      [3, "ok"],
+      [4, "ok"],
+    ]);
+  });
+});
+
+describe("summarizeRows", () => {
+  it("describes every row while the preview shows the first of each status", () => {
+    const rows = validate([
+      ["P-1", "Pump", "1", "1", "1"],
+      ["P-2", "Pump", "", "1", "1"],
+      ["P-3", "Pump", "1", "1", "1"],
+      ["R-1", "Reactor", "abc", "1", "1"],
+      ["R-2", "Reactor", "abc", "1", "1"],
+    ]);
+    const summary = summarizeRows(rows);
+    expect(summary.counts).toEqual({ ok: 3, warning: 0, error: 2 });
+    expect(summary.missing.flowrate).toBe(1);
+    expect(summary.hasReadingTime).toBe(false);
+    expect(previewRows(rows, 2).map((row) => row.data.equipment_name)).toEqual(["P-1", "P-2", "R-1", "R-2"]);
+  });
+});
+
+describe("reading times", () => {
+  const timedHeaders = [...headers, "Timestamp"];
+
+  it("repeats a name once per reading and rejects unreadable times", () => {
+    const rows = validate(
+      [
+        ["P-101", "Pump", "1", "1", "1", "2026-02-12 08:00"],
+        ["P-101", "Pump", "2", "1", "1", "2026-02-12 09:00"],
+        ["P-101", "Pump", "3", "1", "1", "2026-02-12 09:00"],
+        ["P-102", "Pump", "1", "1", "1", "after lunch"],
+      ],
+      timedHeaders
+    );
+    expect(rows.map((row) => row.status)).toEqual(["ok", "ok", "warning", "error"]);
+    expect(rows[0].data.reading_time).toBe(new Date(2026, 1, 12, 8).toISOString());
+    expect(rows[3].issues[0].code).toBe("invalidTimestamp");
+  });
+});
+
+describe("process parameters", () => {
+  const ph = { id: "1", key: "ph", name: "pH", unit: "", min: 0, max: 14 };
+
+  it("stores parameter values in extra and flags unreadable or unexpected ones", () => {
+    const paramHeaders = [...headers, "pH"];
+    const table = {
+      headers: paramHeaders,
+      rows: [
+        ["T-1", "Tank", "1", "1", "1", "7.2"],
+        ["T-2", "Tank", "1", "1", "1", "15"],
+        ["T-3", "Tank", "1", "1", "1", "acidic"],
+      ],
+    };
+    const rows = validateTable(table, detectColumnMapping(paramHeaders, [ph]), DEFAULT_PARSE_OPTIONS, [ph]);
+    expect(rows[0].data.extra).toEqual({ ph: 7.2 });
+    expect(rows.map((row) => row.status)).toEqual(["ok", "warning", "error"]);
+    expect(rows[1].issues[0]).toMatchObject({ code: "outOfRange", field: "param:ph" });
+  });
+});
@@ -0,0 +1,158 @@
+import Papa from 'papaparse';
+import type { ColumnAssignment, ParsedRow, RawTable } from '@/lib/columnMapping';
+import { ParseOptions, detectDelimiter, tableFromRows } from '@/lib/parsing';
+import {
+  RowEdit,
+  ValidatedRow,
+  ValidationSummary,
+  acceptedRows,
+  applyRowEdit,
+  createRowValidator,
+  previewRows,
+  summarizeRows,
+} from '@/lib/validation';
+import { hashRows } from '@/lib/contentHash';
+import type { ProcessParameter } from '@/lib/processParameters';
+
+// Parsing and validation run here so large files do not block the page. The
+// parsed table and the validated rows stay in the worker; the page receives
+// headers and a sample for the mapping step, then a summary with the first
+// rows of each status for the preview. Edits made there are applied here, and
+// the accepted rows are handed out a batch at a time while they are staged.
+// Every message carries the id of the request it belongs to, so a late answer
+// to a request the page has given up on is not taken for the answer to the
+// next one.
+
+export type ImportWorkerCommand =
+  | { type: 'parseCsv'; file: File; options: ParseOptions }
+  | {
+      type: 'validate';
+      mapping: ColumnAssignment[];
+      options: ParseOptions;
+      parameters: ProcessParameter[];
+      table?: RawTable;
+      /** Corrections made earlier, applied again after validating. */
+      edits?: RowEdit[];
+    }
+  | { type: 'edit'; edit: RowEdit }
+  | { type: 'rejectedRows' }
+  | { type: 'acceptedRows'; start: number; end: number };
+
+export type ImportWorkerRequest = { id: number } & ImportWorkerCommand;
+
+type ImportWorkerResult =
+  | { type: 'progress'; phase: 'parsing' | 'validating'; rows: number; bytesRead: number }
+  | { type: 'parsed'; headers: string[]; sampleRows: string[][]; rowCount: number }
+  | { type: 'validated'; rows: ValidatedRow[]; summary: ValidationSummary; contentHash: string }
+  | { type: 'rows'; rows: ValidatedRow[] }
+  | { type: 'accepted'; rows: ParsedRow[] }
+  | { type: 'error'; message: string };
+
+export type ImportWorkerResponse = { id: number } & ImportWorkerResult;
+
+const CHUNK_BYTES = 2 * 1024 * 1024;
+const SAMPLE_ROWS = 50;
+const PROGRESS_EVERY_ROWS = 20000;
+const PREVIEW_ROWS_PER_STATUS = 500;
+
+let table: RawTable | null = null;
+let validated: ValidatedRow[] = [];
+let accepted: ParsedRow[] = [];
+
+function post(id: number, result: ImportWorkerResult) {
+  self.postMessage({ id, ...result });
+}
+
+function parseCsv(id: number, file: File, options: ParseOptions) {
+  const rows: string[][] = [];
+  table = null;
+  validated = [];
+  accepted = [];
+
+  Papa.parse<string[]>(file, {
+    delimiter: options.delimiter || detectDelimiter,
+    skipEmptyLines: true,
+    chunkSize: CHUNK_BYTES,
+    chunk: (results) => {
+      results.data.forEach((row) => rows.push(row));
+      post(id, { type: 'progress', phase: 'parsing', rows: rows.length, bytesRead: results.meta.cursor });
+    },
+    complete: () => {
+      table = tableFromRows(rows, options.headerRowOffset);
+      if (!table) {
+        post(id, { type: 'error', message: 'invalidFormat' });
+        return;
+      }
+      post(id, {
+        type: 'parsed',
+        headers: table.headers,
+        sampleRows: table.rows.slice(0, SAMPLE_ROWS),
+        rowCount: table.rows.length,
+      });
+    },
+    error: (err) => post(id, { type: 'error', message: err.message }),
+  });
+}
+
+async function validate(
+  id: number,
+  mapping: ColumnAssignment[],
+  options: ParseOptions,
+  parameters: ProcessParameter[],
+  source: RawTable | undefined,
+  edits: RowEdit[] = []
+) {
+  const target = source ?? table;
+  validated = [];
+  accepted = [];
+  if (!target) {
+    post(id, { type: 'error', message: 'invalidFormat' });
+    return;
+  }
+
+  const validateRow = createRowValidator(mapping, options, parameters);
+  const rows: ValidatedRow[] = [];
+  target.rows.forEach((raw, index) => {
+    const row = validateRow(raw, index);
+    if (row) rows.push(row);
+    if ((index + 1) % PROGRESS_EVERY_ROWS === 0) {
+      post(id, { type: 'progress', phase: 'validating', rows: index + 1, bytesRead: 0 });
+    }
+  });
+  validated = edits.reduce(applyRowEdit, rows);
+  await postValidated(id);
+}
+
+async function postValidated(id: number) {
+  accepted = acceptedRows(validated);
+  post(id, {
+    type: 'validated',
+    rows: previewRows(validated, PREVIEW_ROWS_PER_STATUS),
+    summary: summarizeRows(validated),
+    contentHash: await hashRows(accepted),
+  });
+}
+
+async function handle(request: ImportWorkerRequest) {
+  switch (request.type) {
+    case 'parseCsv':
+      parseCsv(request.id, request.file, request.options);
+      return;
+    case 'validate':
+      return validate(request.id, request.mapping, request.options, request.parameters, request.table, request.edits);
+    case 'edit':
+      validated = applyRowEdit(validated, request.edit);
+      return postValidated(request.id);
+    case 'rejectedRows':
+      post(request.id, { type: 'rows', rows: validated.filter((row) => row.status === 'error') });
+      return;
+    case 'acceptedRows':
+      post(request.id, { type: 'accepted', rows: accepted.slice(request.start, request.end) });
+      return;
+  }
+}
+
+self.onmessage = (event: MessageEvent<ImportWorkerRequest>) => {
+  const request = event.data;
+  handle(request).catch((err: Error) => post(request.id, { type: 'error', message: err.message }));
+};
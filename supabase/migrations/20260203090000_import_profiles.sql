@@ -0,0 +1,43 @@
+-- Create import_profiles table for saved parsing settings per instrument export
+CREATE TABLE public.import_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  column_units JSONB NOT NULL DEFAULT '{}'::jsonb,
+  delimiter TEXT NOT NULL DEFAULT '',
+  decimal_separator TEXT NOT NULL DEFAULT '.',
+  header_row_offset INTEGER NOT NULL DEFAULT 0,
+  header_fingerprint TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for import_profiles
+CREATE POLICY "Users can view their own import profiles"
+ON public.import_profiles FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import profiles"
+ON public.import_profiles FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import profiles"
+ON public.import_profiles FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import profiles"
+ON public.import_profiles FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for import_profiles timestamp
+CREATE TRIGGER update_import_profiles_updated_at
+BEFORE UPDATE ON public.import_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_import_profiles_user_id ON public.import_profiles(user_id);
+CREATE INDEX idx_import_profiles_fingerprint ON public.import_profiles(user_id, header_fingerprint);
@@ -0,0 +1,9 @@
+-- Record the source unit per quantity for each upload. Values in
+-- equipment_data are always stored in the base units (m3/h, bar, degC).
+ALTER TABLE public.uploads
+ADD COLUMN units JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.uploads.units IS 'Original unit per quantity, e.g. {"pressure": "psi", "temperature": "degF"}';
+COMMENT ON COLUMN public.equipment_data.flowrate IS 'Flowrate in m3/h';
+COMMENT ON COLUMN public.equipment_data.pressure IS 'Pressure in bar';
+COMMENT ON COLUMN public.equipment_data.temperature IS 'Temperature in degC';
@@ -0,0 +1,6 @@
+-- Display unit preference per user. Stored values stay in base units; these
+-- only control how numbers are rendered and exported.
+ALTER TABLE public.profiles
+ADD COLUMN unit_system TEXT NOT NULL DEFAULT 'metric'
+  CHECK (unit_system IN ('metric', 'imperial', 'custom')),
+ADD COLUMN custom_units JSONB NOT NULL DEFAULT '{}'::jsonb;
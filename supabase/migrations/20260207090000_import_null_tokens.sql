@@ -0,0 +1,5 @@
+-- Cell values treated as "no reading" when parsing numbers, saved per import profile
+ALTER TABLE public.import_profiles
+ADD COLUMN null_tokens TEXT[] NOT NULL DEFAULT ARRAY['', 'NA', '-', 'n/a', '#N/A'];
+
+COMMENT ON COLUMN public.import_profiles.null_tokens IS 'Cell values parsed as missing (compared case-insensitively); blank cells are always missing';
@@ -0,0 +1,3 @@
+-- Digit grouping character for numbers such as "1.234,5"; empty means none
+ALTER TABLE public.import_profiles
+ADD COLUMN thousands_separator TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,6 @@
+-- Position of each row within its upload. Batched inserts upsert on
+-- (upload_id, row_index), so retrying a batch never duplicates rows.
+ALTER TABLE public.equipment_data
+ADD COLUMN row_index INTEGER;
+
+CREATE UNIQUE INDEX idx_equipment_data_upload_row ON public.equipment_data(upload_id, row_index);
@@ -0,0 +1,137 @@
+-- Rows of an upload in progress. The client inserts batches here and then
+-- calls commit_upload, which moves them into equipment_data in one
+-- transaction, so a failed upload never leaves a partial uploads row.
+CREATE TABLE public.upload_staging (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  row_index INTEGER NOT NULL,
+  equipment_name TEXT NOT NULL,
+  equipment_type TEXT NOT NULL,
+  flowrate NUMERIC,
+  pressure NUMERIC,
+  temperature NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, row_index)
+);
+
+ALTER TABLE public.upload_staging ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for upload_staging
+CREATE POLICY "Users can view their own staged rows"
+ON public.upload_staging FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own staged rows"
+ON public.upload_staging FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own staged rows"
+ON public.upload_staging FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own staged rows"
+ON public.upload_staging FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_upload_staging_user_created ON public.upload_staging(user_id, created_at);
+
+-- Validates the staged rows of a session, computes the summary, applies the
+-- five-upload limit and creates the upload with its equipment rows. Any
+-- error rolls the whole call back. Runs with the caller's rights, so RLS
+-- still applies to every table it touches.
+CREATE OR REPLACE FUNCTION public.commit_upload(
+  p_session_id UUID,
+  p_filename TEXT,
+  p_units JSONB,
+  p_expected_rows INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_upload_id UUID;
+  v_row_count INTEGER;
+  v_invalid INTEGER;
+  v_summary JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO v_row_count
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF v_row_count = 0 OR v_row_count <> p_expected_rows THEN
+    RAISE EXCEPTION 'Expected % staged rows, found %', p_expected_rows, v_row_count;
+  END IF;
+
+  -- Same rules as the client-side validation: a name is required, gauge
+  -- pressure cannot be below vacuum and temperature not below absolute zero.
+  SELECT count(*) INTO v_invalid
+  FROM public.upload_staging
+  WHERE session_id = p_session_id
+    AND user_id = v_user_id
+    AND (
+      btrim(equipment_name) = '' OR equipment_name = 'Unknown'
+      OR pressure < -1.01325
+      OR temperature < -273.15
+    );
+
+  IF v_invalid > 0 THEN
+    RAISE EXCEPTION '% staged rows failed validation', v_invalid;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'avgFlowrate', COALESCE(avg(flowrate), 0),
+    'avgPressure', COALESCE(avg(pressure), 0),
+    'avgTemperature', COALESCE(avg(temperature), 0),
+    'typeDistribution', (
+      SELECT jsonb_object_agg(equipment_type, type_count)
+      FROM (
+        SELECT equipment_type, count(*) AS type_count
+        FROM public.upload_staging
+        WHERE session_id = p_session_id AND user_id = v_user_id
+        GROUP BY equipment_type
+      ) types
+    ),
+    'missingValues', jsonb_build_object(
+      'equipment_name', count(*) FILTER (WHERE equipment_name = 'Unknown'),
+      'equipment_type', count(*) FILTER (WHERE equipment_type = 'Unknown'),
+      'flowrate', count(*) FILTER (WHERE flowrate IS NULL),
+      'pressure', count(*) FILTER (WHERE pressure IS NULL),
+      'temperature', count(*) FILTER (WHERE temperature IS NULL)
+    )
+  ) INTO v_summary
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  -- Keep the four most recent uploads; the new one makes five.
+  DELETE FROM public.uploads
+  WHERE id IN (
+    SELECT id FROM public.uploads
+    WHERE user_id = v_user_id
+    ORDER BY created_at DESC
+    OFFSET 4
+  );
+
+  INSERT INTO public.uploads (user_id, filename, record_count, summary, units)
+  VALUES (v_user_id, p_filename, v_row_count, v_summary, COALESCE(p_units, '{}'::jsonb))
+  RETURNING id INTO v_upload_id;
+
+  INSERT INTO public.equipment_data (
+    upload_id, user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature
+  )
+  SELECT v_upload_id, v_user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id
+  ORDER BY row_index;
+
+  -- Drop this session and any abandoned ones older than a day.
+  DELETE FROM public.upload_staging
+  WHERE user_id = v_user_id
+    AND (session_id = p_session_id OR created_at < now() - INTERVAL '1 day');
+
+  RETURN v_upload_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,164 @@
+-- Per-user retention policy, replacing the fixed "last five uploads" rule.
+ALTER TABLE public.profiles
+ADD COLUMN retention_mode TEXT NOT NULL DEFAULT 'count'
+  CHECK (retention_mode IN ('count', 'days', 'forever')),
+ADD COLUMN retention_value INTEGER NOT NULL DEFAULT 5 CHECK (retention_value > 0),
+ADD COLUMN retention_archive BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.profiles.retention_mode IS 'count: keep the newest retention_value uploads; days: keep uploads younger than retention_value days; forever: keep everything';
+COMMENT ON COLUMN public.profiles.retention_archive IS 'Archive expired uploads instead of deleting them';
+
+-- Archived uploads keep their data but no longer count towards the policy.
+ALTER TABLE public.uploads
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Uploads the policy would remove once p_incoming new uploads are added.
+-- p_mode and p_value preview a policy that has not been saved yet.
+CREATE OR REPLACE FUNCTION public.retention_candidates(
+  p_incoming INTEGER DEFAULT 1,
+  p_mode TEXT DEFAULT NULL,
+  p_value INTEGER DEFAULT NULL
+)
+RETURNS TABLE (id UUID, filename TEXT, created_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  v_mode TEXT;
+  v_value INTEGER;
+BEGIN
+  SELECT COALESCE(p_mode, p.retention_mode), COALESCE(p_value, p.retention_value)
+  INTO v_mode, v_value
+  FROM public.profiles p
+  WHERE p.user_id = auth.uid();
+
+  IF v_mode = 'count' THEN
+    RETURN QUERY
+      SELECT u.id, u.filename, u.created_at
+      FROM public.uploads u
+      WHERE u.user_id = auth.uid() AND u.archived_at IS NULL
+      ORDER BY u.created_at DESC
+      OFFSET GREATEST(v_value - p_incoming, 0);
+  ELSIF v_mode = 'days' THEN
+    RETURN QUERY
+      SELECT u.id, u.filename, u.created_at
+      FROM public.uploads u
+      WHERE u.user_id = auth.uid()
+        AND u.archived_at IS NULL
+        AND u.created_at < now() - make_interval(days => v_value)
+      ORDER BY u.created_at DESC;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Deletes or archives the uploads returned by retention_candidates.
+CREATE OR REPLACE FUNCTION public.apply_retention(p_incoming INTEGER DEFAULT 1)
+RETURNS INTEGER AS $$
+DECLARE
+  v_archive BOOLEAN;
+  v_affected INTEGER;
+BEGIN
+  SELECT retention_archive INTO v_archive
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  IF COALESCE(v_archive, false) THEN
+    UPDATE public.uploads SET archived_at = now()
+    WHERE id IN (SELECT c.id FROM public.retention_candidates(p_incoming) c);
+  ELSE
+    DELETE FROM public.uploads
+    WHERE id IN (SELECT c.id FROM public.retention_candidates(p_incoming) c);
+  END IF;
+
+  GET DIAGNOSTICS v_affected = ROW_COUNT;
+  RETURN v_affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Same as before, but old uploads are now removed or archived according to
+-- the user's retention policy instead of a fixed limit of five.
+CREATE OR REPLACE FUNCTION public.commit_upload(
+  p_session_id UUID,
+  p_filename TEXT,
+  p_units JSONB,
+  p_expected_rows INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_upload_id UUID;
+  v_row_count INTEGER;
+  v_invalid INTEGER;
+  v_summary JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO v_row_count
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF v_row_count = 0 OR v_row_count <> p_expected_rows THEN
+    RAISE EXCEPTION 'Expected % staged rows, found %', p_expected_rows, v_row_count;
+  END IF;
+
+  -- Same rules as the client-side validation: a name is required, gauge
+  -- pressure cannot be below vacuum and temperature not below absolute zero.
+  SELECT count(*) INTO v_invalid
+  FROM public.upload_staging
+  WHERE session_id = p_session_id
+    AND user_id = v_user_id
+    AND (
+      btrim(equipment_name) = '' OR equipment_name = 'Unknown'
+      OR pressure < -1.01325
+      OR temperature < -273.15
+    );
+
+  IF v_invalid > 0 THEN
+    RAISE EXCEPTION '% staged rows failed validation', v_invalid;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'avgFlowrate', COALESCE(avg(flowrate), 0),
+    'avgPressure', COALESCE(avg(pressure), 0),
+    'avgTemperature', COALESCE(avg(temperature), 0),
+    'typeDistribution', (
+      SELECT jsonb_object_agg(equipment_type, type_count)
+      FROM (
+        SELECT equipment_type, count(*) AS type_count
+        FROM public.upload_staging
+        WHERE session_id = p_session_id AND user_id = v_user_id
+        GROUP BY equipment_type
+      ) types
+    ),
+    'missingValues', jsonb_build_object(
+      'equipment_name', count(*) FILTER (WHERE equipment_name = 'Unknown'),
+      'equipment_type', count(*) FILTER (WHERE equipment_type = 'Unknown'),
+      'flowrate', count(*) FILTER (WHERE flowrate IS NULL),
+      'pressure', count(*) FILTER (WHERE pressure IS NULL),
+      'temperature', count(*) FILTER (WHERE temperature IS NULL)
+    )
+  ) INTO v_summary
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  PERFORM public.apply_retention(1);
+
+  INSERT INTO public.uploads (user_id, filename, record_count, summary, units)
+  VALUES (v_user_id, p_filename, v_row_count, v_summary, COALESCE(p_units, '{}'::jsonb))
+  RETURNING id INTO v_upload_id;
+
+  INSERT INTO public.equipment_data (
+    upload_id, user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature
+  )
+  SELECT v_upload_id, v_user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id
+  ORDER BY row_index;
+
+  -- Drop this session and any abandoned ones older than a day.
+  DELETE FROM public.upload_staging
+  WHERE user_id = v_user_id
+    AND (session_id = p_session_id OR created_at < now() - INTERVAL '1 day');
+
+  RETURN v_upload_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,105 @@
+-- SHA-256 of the normalized rows, used to spot files that were uploaded before.
+ALTER TABLE public.uploads
+ADD COLUMN content_hash TEXT;
+
+CREATE INDEX idx_uploads_user_content_hash ON public.uploads(user_id, content_hash);
+
+DROP FUNCTION public.commit_upload(UUID, TEXT, JSONB, INTEGER);
+
+-- Now also records the content hash, and can replace an earlier upload of
+-- the same data in the same transaction.
+CREATE OR REPLACE FUNCTION public.commit_upload(
+  p_session_id UUID,
+  p_filename TEXT,
+  p_units JSONB,
+  p_expected_rows INTEGER,
+  p_content_hash TEXT DEFAULT NULL,
+  p_replace_upload_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_upload_id UUID;
+  v_row_count INTEGER;
+  v_invalid INTEGER;
+  v_summary JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO v_row_count
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF v_row_count = 0 OR v_row_count <> p_expected_rows THEN
+    RAISE EXCEPTION 'Expected % staged rows, found %', p_expected_rows, v_row_count;
+  END IF;
+
+  -- Same rules as the client-side validation: a name is required, gauge
+  -- pressure cannot be below vacuum and temperature not below absolute zero.
+  SELECT count(*) INTO v_invalid
+  FROM public.upload_staging
+  WHERE session_id = p_session_id
+    AND user_id = v_user_id
+    AND (
+      btrim(equipment_name) = '' OR equipment_name = 'Unknown'
+      OR pressure < -1.01325
+      OR temperature < -273.15
+    );
+
+  IF v_invalid > 0 THEN
+    RAISE EXCEPTION '% staged rows failed validation', v_invalid;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'avgFlowrate', COALESCE(avg(flowrate), 0),
+    'avgPressure', COALESCE(avg(pressure), 0),
+    'avgTemperature', COALESCE(avg(temperature), 0),
+    'typeDistribution', (
+      SELECT jsonb_object_agg(equipment_type, type_count)
+      FROM (
+        SELECT equipment_type, count(*) AS type_count
+        FROM public.upload_staging
+        WHERE session_id = p_session_id AND user_id = v_user_id
+        GROUP BY equipment_type
+      ) types
+    ),
+    'missingValues', jsonb_build_object(
+      'equipment_name', count(*) FILTER (WHERE equipment_name = 'Unknown'),
+      'equipment_type', count(*) FILTER (WHERE equipment_type = 'Unknown'),
+      'flowrate', count(*) FILTER (WHERE flowrate IS NULL),
+      'pressure', count(*) FILTER (WHERE pressure IS NULL),
+      'temperature', count(*) FILTER (WHERE temperature IS NULL)
+    )
+  ) INTO v_summary
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF p_replace_upload_id IS NOT NULL THEN
+    DELETE FROM public.uploads
+    WHERE id = p_replace_upload_id AND user_id = v_user_id;
+  END IF;
+
+  PERFORM public.apply_retention(1);
+
+  INSERT INTO public.uploads (user_id, filename, record_count, summary, units, content_hash)
+  VALUES (v_user_id, p_filename, v_row_count, v_summary, COALESCE(p_units, '{}'::jsonb), p_content_hash)
+  RETURNING id INTO v_upload_id;
+
+  INSERT INTO public.equipment_data (
+    upload_id, user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature
+  )
+  SELECT v_upload_id, v_user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id
+  ORDER BY row_index;
+
+  -- Drop this session and any abandoned ones older than a day.
+  DELETE FROM public.upload_staging
+  WHERE user_id = v_user_id
+    AND (session_id = p_session_id OR created_at < now() - INTERVAL '1 day');
+
+  RETURN v_upload_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
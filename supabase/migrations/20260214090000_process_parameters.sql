@@ -0,0 +1,152 @@
+-- User-defined process parameters (level, vibration, pH, ...). Values are
+-- stored per row in equipment_data.extra, keyed by the parameter key, so a
+-- new parameter needs no schema change.
+CREATE TABLE public.process_parameters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  unit TEXT NOT NULL DEFAULT '',
+  min_value NUMERIC,
+  max_value NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key),
+  CHECK (min_value IS NULL OR max_value IS NULL OR min_value <= max_value)
+);
+
+ALTER TABLE public.process_parameters ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for process_parameters
+CREATE POLICY "Users can view their own process parameters"
+ON public.process_parameters FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own process parameters"
+ON public.process_parameters FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own process parameters"
+ON public.process_parameters FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own process parameters"
+ON public.process_parameters FOR DELETE
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.equipment_data
+ADD COLUMN extra JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.upload_staging
+ADD COLUMN extra JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Same as before, but moves the parameter values along and records their
+-- averages in the summary.
+CREATE OR REPLACE FUNCTION public.commit_upload(
+  p_session_id UUID,
+  p_filename TEXT,
+  p_units JSONB,
+  p_expected_rows INTEGER,
+  p_content_hash TEXT DEFAULT NULL,
+  p_replace_upload_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_upload_id UUID;
+  v_row_count INTEGER;
+  v_invalid INTEGER;
+  v_summary JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO v_row_count
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF v_row_count = 0 OR v_row_count <> p_expected_rows THEN
+    RAISE EXCEPTION 'Expected % staged rows, found %', p_expected_rows, v_row_count;
+  END IF;
+
+  -- Same rules as the client-side validation: a name is required, gauge
+  -- pressure cannot be below vacuum and temperature not below absolute zero.
+  SELECT count(*) INTO v_invalid
+  FROM public.upload_staging
+  WHERE session_id = p_session_id
+    AND user_id = v_user_id
+    AND (
+      btrim(equipment_name) = '' OR equipment_name = 'Unknown'
+      OR pressure < -1.01325
+      OR temperature < -273.15
+    );
+
+  IF v_invalid > 0 THEN
+    RAISE EXCEPTION '% staged rows failed validation', v_invalid;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'avgFlowrate', COALESCE(avg(flowrate), 0),
+    'avgPressure', COALESCE(avg(pressure), 0),
+    'avgTemperature', COALESCE(avg(temperature), 0),
+    'typeDistribution', (
+      SELECT jsonb_object_agg(equipment_type, type_count)
+      FROM (
+        SELECT equipment_type, count(*) AS type_count
+        FROM public.upload_staging
+        WHERE session_id = p_session_id AND user_id = v_user_id
+        GROUP BY equipment_type
+      ) types
+    ),
+    'missingValues', jsonb_build_object(
+      'equipment_name', count(*) FILTER (WHERE equipment_name = 'Unknown'),
+      'equipment_type', count(*) FILTER (WHERE equipment_type = 'Unknown'),
+      'flowrate', count(*) FILTER (WHERE flowrate IS NULL),
+      'pressure', count(*) FILTER (WHERE pressure IS NULL),
+      'temperature', count(*) FILTER (WHERE temperature IS NULL)
+    ),
+    'firstReading', min(reading_time),
+    'lastReading', max(reading_time),
+    'parameterAverages', COALESCE((
+      SELECT jsonb_object_agg(key, avg_value)
+      FROM (
+        SELECT extra_values.key, avg(extra_values.value::numeric) AS avg_value
+        FROM public.upload_staging staged, jsonb_each_text(staged.extra) AS extra_values
+        WHERE staged.session_id = p_session_id AND staged.user_id = v_user_id
+        GROUP BY extra_values.key
+      ) averages
+    ), '{}'::jsonb)
+  ) INTO v_summary
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF p_replace_upload_id IS NOT NULL THEN
+    DELETE FROM public.uploads
+    WHERE id = p_replace_upload_id AND user_id = v_user_id;
+  END IF;
+
+  PERFORM public.apply_retention(1);
+
+  INSERT INTO public.uploads (user_id, filename, record_count, summary, units, content_hash)
+  VALUES (v_user_id, p_filename, v_row_count, v_summary, COALESCE(p_units, '{}'::jsonb), p_content_hash)
+  RETURNING id INTO v_upload_id;
+
+  INSERT INTO public.equipment_data (
+    upload_id, user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature, reading_time,
+    extra
+  )
+  SELECT
+    v_upload_id, v_user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature, reading_time,
+    extra
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id
+  ORDER BY row_index;
+
+  -- Drop this session and any abandoned ones older than a day.
+  DELETE FROM public.upload_staging
+  WHERE user_id = v_user_id
+    AND (session_id = p_session_id OR created_at < now() - INTERVAL '1 day');
+
+  RETURN v_upload_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,193 @@
+-- Equipment master data. Uploaded rows are linked to an asset by tag
+-- (case-insensitive), so readings of "P-101" from different files belong to
+-- the same equipment.
+CREATE TABLE public.equipment (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL CHECK (btrim(tag) <> ''),
+  equipment_type TEXT,
+  area TEXT,
+  manufacturer TEXT,
+  commissioned_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_equipment_user_tag ON public.equipment(user_id, lower(tag));
+
+ALTER TABLE public.equipment ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for equipment
+CREATE POLICY "Users can view their own equipment"
+ON public.equipment FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own equipment"
+ON public.equipment FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own equipment"
+ON public.equipment FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own equipment"
+ON public.equipment FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_equipment_updated_at
+BEFORE UPDATE ON public.equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.equipment_data
+ADD COLUMN equipment_id UUID REFERENCES public.equipment(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_equipment_data_equipment_id ON public.equipment_data(equipment_id);
+
+-- Register the equipment of existing uploads and link their rows.
+INSERT INTO public.equipment (user_id, tag, equipment_type)
+SELECT DISTINCT ON (user_id, lower(btrim(equipment_name))) user_id, btrim(equipment_name), equipment_type
+FROM public.equipment_data
+WHERE btrim(equipment_name) <> '' AND equipment_name <> 'Unknown'
+ORDER BY user_id, lower(btrim(equipment_name)), created_at
+ON CONFLICT (user_id, lower(tag)) DO NOTHING;
+
+UPDATE public.equipment_data
+SET equipment_id = equipment.id
+FROM public.equipment
+WHERE equipment.user_id = equipment_data.user_id
+  AND lower(equipment.tag) = lower(btrim(equipment_data.equipment_name));
+
+-- Reading and upload counts per asset for the equipment list.
+CREATE OR REPLACE FUNCTION public.equipment_stats()
+RETURNS TABLE (equipment_id UUID, reading_count BIGINT, upload_count BIGINT, last_seen_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT
+    equipment_data.equipment_id,
+    count(*),
+    count(DISTINCT equipment_data.upload_id),
+    max(COALESCE(equipment_data.reading_time, equipment_data.created_at))
+  FROM public.equipment_data
+  WHERE equipment_data.user_id = auth.uid() AND equipment_data.equipment_id IS NOT NULL
+  GROUP BY equipment_data.equipment_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Same as before, but registers new tags and links every row to its equipment.
+CREATE OR REPLACE FUNCTION public.commit_upload(
+  p_session_id UUID,
+  p_filename TEXT,
+  p_units JSONB,
+  p_expected_rows INTEGER,
+  p_content_hash TEXT DEFAULT NULL,
+  p_replace_upload_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_upload_id UUID;
+  v_row_count INTEGER;
+  v_invalid INTEGER;
+  v_summary JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO v_row_count
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF v_row_count = 0 OR v_row_count <> p_expected_rows THEN
+    RAISE EXCEPTION 'Expected % staged rows, found %', p_expected_rows, v_row_count;
+  END IF;
+
+  -- Same rules as the client-side validation: a name is required, gauge
+  -- pressure cannot be below vacuum and temperature not below absolute zero.
+  SELECT count(*) INTO v_invalid
+  FROM public.upload_staging
+  WHERE session_id = p_session_id
+    AND user_id = v_user_id
+    AND (
+      btrim(equipment_name) = '' OR equipment_name = 'Unknown'
+      OR pressure < -1.01325
+      OR temperature < -273.15
+    );
+
+  IF v_invalid > 0 THEN
+    RAISE EXCEPTION '% staged rows failed validation', v_invalid;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'avgFlowrate', COALESCE(avg(flowrate), 0),
+    'avgPressure', COALESCE(avg(pressure), 0),
+    'avgTemperature', COALESCE(avg(temperature), 0),
+    'typeDistribution', (
+      SELECT jsonb_object_agg(equipment_type, type_count)
+      FROM (
+        SELECT equipment_type, count(*) AS type_count
+        FROM public.upload_staging
+        WHERE session_id = p_session_id AND user_id = v_user_id
+        GROUP BY equipment_type
+      ) types
+    ),
+    'missingValues', jsonb_build_object(
+      'equipment_name', count(*) FILTER (WHERE equipment_name = 'Unknown'),
+      'equipment_type', count(*) FILTER (WHERE equipment_type = 'Unknown'),
+      'flowrate', count(*) FILTER (WHERE flowrate IS NULL),
+      'pressure', count(*) FILTER (WHERE pressure IS NULL),
+      'temperature', count(*) FILTER (WHERE temperature IS NULL)
+    ),
+    'firstReading', min(reading_time),
+    'lastReading', max(reading_time),
+    'parameterAverages', COALESCE((
+      SELECT jsonb_object_agg(key, avg_value)
+      FROM (
+        SELECT extra_values.key, avg(extra_values.value::numeric) AS avg_value
+        FROM public.upload_staging staged, jsonb_each_text(staged.extra) AS extra_values
+        WHERE staged.session_id = p_session_id AND staged.user_id = v_user_id
+        GROUP BY extra_values.key
+      ) averages
+    ), '{}'::jsonb)
+  ) INTO v_summary
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF p_replace_upload_id IS NOT NULL THEN
+    DELETE FROM public.uploads
+    WHERE id = p_replace_upload_id AND user_id = v_user_id;
+  END IF;
+
+  PERFORM public.apply_retention(1);
+
+  INSERT INTO public.uploads (user_id, filename, record_count, summary, units, content_hash)
+  VALUES (v_user_id, p_filename, v_row_count, v_summary, COALESCE(p_units, '{}'::jsonb), p_content_hash)
+  RETURNING id INTO v_upload_id;
+
+  -- Register tags seen for the first time, with the type of their first row.
+  INSERT INTO public.equipment (user_id, tag, equipment_type)
+  SELECT DISTINCT ON (lower(btrim(equipment_name))) v_user_id, btrim(equipment_name), equipment_type
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id
+  ORDER BY lower(btrim(equipment_name)), row_index
+  ON CONFLICT (user_id, lower(tag)) DO NOTHING;
+
+  INSERT INTO public.equipment_data (
+    upload_id, user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature, reading_time,
+    extra, equipment_id
+  )
+  SELECT
+    v_upload_id, v_user_id, staged.row_index, staged.equipment_name, staged.equipment_type, staged.flowrate,
+    staged.pressure, staged.temperature, staged.reading_time, staged.extra, equipment.id
+  FROM public.upload_staging staged
+  JOIN public.equipment
+    ON equipment.user_id = v_user_id AND lower(equipment.tag) = lower(btrim(staged.equipment_name))
+  WHERE staged.session_id = p_session_id AND staged.user_id = v_user_id
+  ORDER BY staged.row_index;
+
+  -- Drop this session and any abandoned ones older than a day.
+  DELETE FROM public.upload_staging
+  WHERE user_id = v_user_id
+    AND (session_id = p_session_id OR created_at < now() - INTERVAL '1 day');
+
+  RETURN v_upload_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,5 @@
+-- Operating limits per asset, keyed by metric id ("flowrate", "pressure",
+-- "temperature" or "param:<key>"), e.g. {"pressure": {"min": 1, "max": 8}}.
+-- Quantities are stored in base units, process parameters in their own unit.
+ALTER TABLE public.equipment
+ADD COLUMN limits JSONB NOT NULL DEFAULT '{}'::jsonb;
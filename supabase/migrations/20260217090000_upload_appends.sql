@@ -0,0 +1,154 @@
+-- Log of follow-up files merged into an existing upload
+CREATE TABLE public.upload_appends (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  upload_id UUID NOT NULL REFERENCES public.uploads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  row_count INTEGER NOT NULL,
+  content_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_upload_appends_upload_id ON public.upload_appends(upload_id);
+
+ALTER TABLE public.upload_appends ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for upload_appends; entries are written by append_upload and never edited
+CREATE POLICY "Users can view their own upload appends"
+ON public.upload_appends FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own upload appends"
+ON public.upload_appends FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Merges staged rows into an existing upload: the rows follow the upload's
+-- current ones, record_count and summary are recomputed over all of its rows,
+-- and the file is logged in upload_appends. Retention does not apply, since
+-- no upload is created.
+CREATE OR REPLACE FUNCTION public.append_upload(
+  p_session_id UUID,
+  p_upload_id UUID,
+  p_filename TEXT,
+  p_expected_rows INTEGER,
+  p_content_hash TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_row_count INTEGER;
+  v_invalid INTEGER;
+  v_next_index INTEGER;
+  v_summary JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Locks the upload so concurrent appends number their rows one after the other.
+  PERFORM 1 FROM public.uploads
+  WHERE id = p_upload_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload % not found', p_upload_id;
+  END IF;
+
+  SELECT count(*) INTO v_row_count
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id;
+
+  IF v_row_count = 0 OR v_row_count <> p_expected_rows THEN
+    RAISE EXCEPTION 'Expected % staged rows, found %', p_expected_rows, v_row_count;
+  END IF;
+
+  -- Same checks as commit_upload.
+  SELECT count(*) INTO v_invalid
+  FROM public.upload_staging
+  WHERE session_id = p_session_id
+    AND user_id = v_user_id
+    AND (
+      btrim(equipment_name) = '' OR equipment_name = 'Unknown'
+      OR pressure < -1.01325
+      OR temperature < -273.15
+    );
+
+  IF v_invalid > 0 THEN
+    RAISE EXCEPTION '% staged rows failed validation', v_invalid;
+  END IF;
+
+  SELECT COALESCE(max(row_index) + 1, 0) INTO v_next_index
+  FROM public.equipment_data
+  WHERE upload_id = p_upload_id;
+
+  INSERT INTO public.equipment (user_id, tag, equipment_type)
+  SELECT DISTINCT ON (lower(btrim(equipment_name))) v_user_id, btrim(equipment_name), equipment_type
+  FROM public.upload_staging
+  WHERE session_id = p_session_id AND user_id = v_user_id
+  ORDER BY lower(btrim(equipment_name)), row_index
+  ON CONFLICT (user_id, lower(tag)) DO NOTHING;
+
+  INSERT INTO public.equipment_data (
+    upload_id, user_id, row_index, equipment_name, equipment_type, flowrate, pressure, temperature, reading_time,
+    extra, equipment_id
+  )
+  SELECT
+    p_upload_id, v_user_id, v_next_index + staged.row_index, staged.equipment_name, staged.equipment_type,
+    staged.flowrate, staged.pressure, staged.temperature, staged.reading_time, staged.extra, equipment.id
+  FROM public.upload_staging staged
+  JOIN public.equipment
+    ON equipment.user_id = v_user_id AND lower(equipment.tag) = lower(btrim(staged.equipment_name))
+  WHERE staged.session_id = p_session_id AND staged.user_id = v_user_id
+  ORDER BY staged.row_index;
+
+  -- The summary commit_upload builds, over the upload's rows after the merge.
+  SELECT jsonb_build_object(
+    'avgFlowrate', COALESCE(avg(flowrate), 0),
+    'avgPressure', COALESCE(avg(pressure), 0),
+    'avgTemperature', COALESCE(avg(temperature), 0),
+    'typeDistribution', (
+      SELECT jsonb_object_agg(equipment_type, type_count)
+      FROM (
+        SELECT equipment_type, count(*) AS type_count
+        FROM public.equipment_data
+        WHERE upload_id = p_upload_id
+        GROUP BY equipment_type
+      ) types
+    ),
+    'missingValues', jsonb_build_object(
+      'equipment_name', count(*) FILTER (WHERE equipment_name = 'Unknown'),
+      'equipment_type', count(*) FILTER (WHERE equipment_type = 'Unknown'),
+      'flowrate', count(*) FILTER (WHERE flowrate IS NULL),
+      'pressure', count(*) FILTER (WHERE pressure IS NULL),
+      'temperature', count(*) FILTER (WHERE temperature IS NULL)
+    ),
+    'firstReading', min(reading_time),
+    'lastReading', max(reading_time),
+    'parameterAverages', COALESCE((
+      SELECT jsonb_object_agg(key, avg_value)
+      FROM (
+        SELECT extra_values.key, avg(extra_values.value::numeric) AS avg_value
+        FROM public.equipment_data stored, jsonb_each_text(stored.extra) AS extra_values
+        WHERE stored.upload_id = p_upload_id
+        GROUP BY extra_values.key
+      ) averages
+    ), '{}'::jsonb)
+  ) INTO v_summary
+  FROM public.equipment_data
+  WHERE upload_id = p_upload_id;
+
+  UPDATE public.uploads
+  SET record_count = (SELECT count(*) FROM public.equipment_data WHERE upload_id = p_upload_id),
+      summary = v_summary
+  WHERE id = p_upload_id;
+
+  INSERT INTO public.upload_appends (upload_id, user_id, filename, row_count, content_hash)
+  VALUES (p_upload_id, v_user_id, p_filename, v_row_count, p_content_hash);
+
+  DELETE FROM public.upload_staging
+  WHERE user_id = v_user_id
+    AND (session_id = p_session_id OR created_at < now() - INTERVAL '1 day');
+
+  RETURN p_upload_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,43 @@
+-- The Visualization cross-filter, evaluated in the database so charts can use
+-- every row of an upload rather than the first page of it. Ranges are keyed
+-- by column the way the data table filters them: 'flowrate' or 'extra->ph'.
+
+-- Numeric value of such a column in the row; NULL when missing or not a number.
+CREATE OR REPLACE FUNCTION public.reading_value(p_row public.equipment_data, p_column TEXT)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE WHEN jsonb_typeof(cell.value) = 'number' THEN cell.value::text::DOUBLE PRECISION END
+  FROM (
+    SELECT CASE
+      WHEN p_column LIKE 'extra->%' THEN p_row.extra -> substr(p_column, length('extra->') + 1)
+      ELSE to_jsonb(p_row) -> p_column
+    END AS value
+  ) AS cell;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Whether the row has one of the types (any when empty) and lies within every range.
+CREATE OR REPLACE FUNCTION public.reading_matches(p_row public.equipment_data, p_types TEXT[], p_ranges JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT (cardinality(p_types) = 0 OR p_row.equipment_type = ANY (p_types))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(p_ranges) AS ranges(column_name, limits)
+      CROSS JOIN LATERAL (SELECT public.reading_value(p_row, ranges.column_name) AS value) AS reading
+      WHERE reading.value IS NULL
+         OR reading.value < (ranges.limits ->> 'min')::DOUBLE PRECISION
+         OR reading.value > (ranges.limits ->> 'max')::DOUBLE PRECISION
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Equipment of the upload with at least one timed reading passing the filter.
+CREATE OR REPLACE FUNCTION public.timed_equipment(
+  p_upload_id UUID,
+  p_types TEXT[] DEFAULT '{}',
+  p_ranges JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT equipment_data.equipment_name), '{}')
+  FROM public.equipment_data
+  WHERE equipment_data.upload_id = p_upload_id
+    AND equipment_data.reading_time IS NOT NULL
+    AND public.reading_matches(equipment_data, p_types, p_ranges);
+$$ LANGUAGE sql STABLE SET search_path = public;
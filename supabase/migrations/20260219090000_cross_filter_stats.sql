@@ -0,0 +1,44 @@
+-- Count, averages and type distribution of an upload's rows passing the
+-- Visualization cross-filter, so the stat cards and the pie agree with the
+-- data table however many rows the upload has. Averages are keyed by column
+-- like the ranges. The type distribution leaves p_types out: the pie
+-- highlights its own picks instead of dropping the other types.
+CREATE OR REPLACE FUNCTION public.cross_filter_stats(
+  p_upload_id UUID,
+  p_types TEXT[] DEFAULT '{}',
+  p_ranges JSONB DEFAULT '{}'::jsonb,
+  p_columns TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+  WITH in_ranges AS (
+    SELECT equipment_data AS reading
+    FROM public.equipment_data
+    WHERE equipment_data.upload_id = p_upload_id
+      AND public.reading_matches(equipment_data, '{}', p_ranges)
+  ), matching AS (
+    SELECT reading
+    FROM in_ranges
+    WHERE cardinality(p_types) = 0 OR (reading).equipment_type = ANY (p_types)
+  )
+  SELECT jsonb_build_object(
+    'count', (SELECT count(*) FROM matching),
+    'averages', (
+      SELECT COALESCE(
+        jsonb_object_agg(
+          columns.name,
+          (SELECT avg(public.reading_value(matching.reading, columns.name)) FROM matching)
+        ),
+        '{}'::jsonb
+      )
+      FROM unnest(p_columns) AS columns(name)
+    ),
+    'typeDistribution', (
+      SELECT COALESCE(jsonb_object_agg(counts.equipment_type, counts.total), '{}'::jsonb)
+      FROM (
+        SELECT (reading).equipment_type, count(*) AS total
+        FROM in_ranges
+        GROUP BY (reading).equipment_type
+      ) AS counts
+    )
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;